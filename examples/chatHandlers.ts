@@ -7,97 +7,80 @@
  * - Message read receipts
  */
 
-import type { AuthenticatedSocket } from "../src/types";
-import type { Server as SocketIOServer } from "socket.io";
-import type { Payload } from "payload";
+import { z } from "zod";
+import {
+  defineSocketHandler,
+  defineSocketHandlers,
+} from "../src/socketHandlers";
 
-export const chatHandlers = (
-  socket: AuthenticatedSocket,
-  io: SocketIOServer,
-  payload: Payload
-) => {
+export const chatHandlers = defineSocketHandlers({
   // Send a message to a room
-  socket.on(
-    "send-message",
-    async (data: { roomId: string; message: string }) => {
-      const { roomId, message } = data;
-
-      if (!roomId || !message) {
-        socket.emit("error", { message: "Room ID and message are required" });
-        return;
-      }
-
-      try {
-        // Save message to database
-        const newMessage = await payload.create({
-          collection: "messages",
-          data: {
-            room: roomId,
-            user: socket.user!.id,
-            message,
-            timestamp: new Date().toISOString(),
-          },
-        });
-
-        // Broadcast to room
-        io.to(`room:${roomId}`).emit("new-message", {
-          id: newMessage.id,
-          user: {
-            id: socket.user!.id,
-            email: socket.user!.email,
-          },
+  "send-message": defineSocketHandler({
+    schema: z.object({
+      roomId: z.string().min(1),
+      message: z.string().min(1).max(2000),
+    }),
+    handler: async ({ roomId, message }, { io, payload, user }) => {
+      // Save message to database
+      const newMessage = await payload.create({
+        collection: "messages",
+        data: {
+          room: roomId,
+          user: user.id,
           message,
-          timestamp: newMessage.timestamp,
-        });
+          timestamp: new Date().toISOString(),
+        },
+      });
 
-        payload.logger.info(
-          `User ${socket.user!.email} sent message to room ${roomId}`
-        );
-      } catch (error) {
-        payload.logger.error("Error sending message:", error);
-        socket.emit("send-message-error", {
-          message: "Failed to send message",
-        });
-      }
-    }
-  );
+      // Broadcast to room
+      io.to(`room:${roomId}`).emit("new-message", {
+        id: newMessage.id,
+        user: {
+          id: user.id,
+          email: user.email,
+        },
+        message,
+        timestamp: newMessage.timestamp,
+      });
 
-  // Typing indicator
-  socket.on("typing", (data: { roomId: string; isTyping: boolean }) => {
-    const { roomId, isTyping } = data;
+      payload.logger.info(`User ${user.email} sent message to room ${roomId}`);
 
-    if (!roomId) return;
+      return { id: newMessage.id as string };
+    },
+  }),
 
-    socket.to(`room:${roomId}`).emit("user-typing", {
-      userId: socket.user!.id,
-      email: socket.user!.email,
-      isTyping,
-    });
-  });
+  // Typing indicator
+  typing: defineSocketHandler({
+    schema: z.object({
+      roomId: z.string().min(1),
+      isTyping: z.boolean(),
+    }),
+    handler: ({ roomId, isTyping }, { socket, user }) => {
+      socket.to(`room:${roomId}`).emit("user-typing", {
+        userId: user.id,
+        email: user.email,
+        isTyping,
+      });
+    },
+  }),
 
   // Mark message as read
-  socket.on("mark-read", async (data: { messageId: string }) => {
-    const { messageId } = data;
-
-    if (!messageId) return;
-
-    try {
+  "mark-read": defineSocketHandler({
+    schema: z.object({ messageId: z.string().min(1) }),
+    handler: async ({ messageId }, { socket, payload, user }) => {
       await payload.update({
         collection: "messages",
         id: messageId,
         data: {
-          readBy: socket.user!.id,
+          readBy: user.id,
         },
       });
 
       // Notify sender that message was read
       socket.broadcast.emit("message-read", {
         messageId,
-        readBy: socket.user!.id,
+        readBy: user.id,
       });
-    } catch (error) {
-      payload.logger.error("Error marking message as read:", error);
-    }
-  });
-};
-
+    },
+  }),
+});
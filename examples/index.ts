@@ -1,23 +1,29 @@
 /**
  * Custom Socket Event Handlers
- * 
+ *
  * Export all custom handler implementations for easy importing.
- * 
+ *
  * Usage:
  * ```typescript
- * import { projectHandlers, chatHandlers, notificationHandlers } from './examples';
- * 
+ * import { exampleHandlers } from './examples';
+ *
  * socketPlugin({
- *   onSocketConnection: (socket, io, payload) => {
- *     projectHandlers(socket, io, payload);
- *     chatHandlers(socket, io, payload);
- *     notificationHandlers(socket, io, payload);
- *   }
+ *   handlers: exampleHandlers,
  * });
+ *
+ * // Client: createRealtimeClient<Collections, Globals, typeof exampleHandlers>
  * ```
  */
 
-export { projectHandlers } from "./projectHandlers";
-export { chatHandlers } from "./chatHandlers";
-export { notificationHandlers } from "./notificationHandlers";
+import { projectHandlers } from "./projectHandlers";
+import { chatHandlers } from "./chatHandlers";
+import { notificationHandlers } from "./notificationHandlers";
 
+export { projectHandlers, chatHandlers, notificationHandlers };
+
+/** All example handlers, listed in one place */
+export const exampleHandlers = {
+  ...projectHandlers,
+  ...chatHandlers,
+  ...notificationHandlers,
+};
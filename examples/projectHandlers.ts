@@ -3,47 +3,56 @@
  *
  * Features:
  * - Join/leave project rooms with permission checking
- * - Active user tracking (who's currently in the project)
+ * - Active user tracking via the plugin's built-in presence (`presence: true`)
  * - User kick functionality (owner only)
- * - Automatic cleanup on disconnect
+ *
+ * `join-project` acknowledges with the project's room. Clients then announce
+ * themselves with `socket.emit("presence:join", { room })` and receive the
+ * active users in the ack. The plugin emits `presence:user-joined`,
+ * `presence:user-updated` and `presence:user-left` per user (not per tab),
+ * and removes a socket's presence automatically when it leaves the room, is
+ * kicked or disconnects.
  */
 
-import type { AuthenticatedSocket } from "../src/types";
-import type { Server as SocketIOServer } from "socket.io";
+import { z } from "zod";
 import type { Payload } from "payload";
+import {
+  defineSocketHandler,
+  defineSocketHandlers,
+} from "../src/socketHandlers";
 
-export const projectHandlers = (
-  socket: AuthenticatedSocket,
-  io: SocketIOServer,
-  payload: Payload
-) => {
-  // Join a project room with permission checking
-  socket.on("join-project", async (projectId: string) => {
-    if (!projectId) {
-      socket.emit("error", { message: "Project ID is required" });
-      return;
-    }
-
-    try {
-      // Check if user has permission to join this project
-      const project = await payload.findByID({
-        collection: "projects",
-        id: projectId,
-        depth: 0,
-      });
+/**
+ * Get the ID of the user owning a project
+ */
+async function getProjectOwnerId(
+  payload: Payload,
+  projectId: string
+): Promise<string | number | undefined> {
+  const project = await payload.findByID({
+    collection: "projects",
+    id: projectId,
+    depth: 0,
+  });
 
-      const projectOwnerId =
-        typeof project.user === "string"
-          ? project.user
-          : (project.user as any)?.id;
+  return typeof project.user === "object"
+    ? (project.user as any)?.id
+    : project.user;
+}
 
-      const isOwner = socket.user!.id === projectOwnerId;
+export const projectHandlers = defineSocketHandlers({
+  // Join a project room with permission checking
+  "join-project": defineSocketHandler({
+    schema: z.string().min(1),
+    // Owners and invited editors may join
+    access: async (projectId, { payload, user }) => {
+      if ((await getProjectOwnerId(payload, projectId)) === user.id) {
+        return true;
+      }
 
-      // Check for editor invitation
       const invitation = await payload.find({
         collection: "projectInvitations",
         where: {
-          user: { equals: socket.user!.id },
+          user: { equals: user.id },
           status: { equals: "accepted" },
           project: { equals: projectId },
           role: { equals: "editor" },
@@ -51,143 +60,58 @@ export const projectHandlers = (
         limit: 1,
       });
 
-      const hasEditorInvite = invitation.docs.length > 0;
+      return invitation.docs.length > 0;
+    },
+    handler: async (projectId, { socket, payload, user }) => {
+      const room = `project:${projectId}`;
+      await socket.join(room);
 
-      if (!isOwner && !hasEditorInvite) {
-        socket.emit("join-project-error", {
-          message: "You don't have permission to join this project",
-        });
-        return;
-      }
+      payload.logger.info(`User ${user.email} joined project ${projectId}`);
 
-      // Join the room
-      const roomName = `project:${projectId}`;
-      await socket.join(roomName);
-
-      // Get active users in the room
-      const socketsInRoom = await io.in(roomName).fetchSockets();
-      const activeUsers = socketsInRoom
-        .map((s: any) => ({
-          id: s.user?.id,
-          email: s.user?.email,
-        }))
-        .filter((u) => u.id);
-
-      // Send active users to the joining client
-      socket.emit("project:active-users", activeUsers);
-
-      // Notify others that a new user joined
-      socket.to(roomName).emit("project:user-joined", {
-        id: socket.user!.id,
-        email: socket.user!.email,
-      });
-
-      payload.logger.info(
-        `User ${socket.user!.email} joined project ${projectId}`
-      );
-    } catch (error) {
-      payload.logger.error("Error joining project:", error);
-      socket.emit("join-project-error", {
-        message: "Failed to join project",
-      });
-    }
-  });
+      // The client can now join the room's presence
+      return { projectId, room };
+    },
+  }),
 
   // Leave a project room
-  socket.on("leave-project", (projectId: string) => {
-    if (!projectId) return;
+  "leave-project": defineSocketHandler({
+    schema: z.string().min(1),
+    handler: async (projectId, { socket, payload, user }) => {
+      // Leaving the room also removes the socket from the room's presence
+      await socket.leave(`project:${projectId}`);
 
-    const roomName = `project:${projectId}`;
-    socket.leave(roomName);
-
-    // Notify others that user left
-    socket.to(roomName).emit("project:user-left", socket.user!.id);
-
-    payload.logger.info(`User ${socket.user!.email} left project ${projectId}`);
-  });
+      payload.logger.info(`User ${user.email} left project ${projectId}`);
+    },
+  }),
 
   // Kick a user from a project (owner only)
-  socket.on(
-    "kick-user",
-    async (data: { projectId: string; userId: string }) => {
-      const { projectId, userId } = data;
-
-      if (!projectId || !userId) {
-        socket.emit("error", {
-          message: "Project ID and User ID are required",
-        });
-        return;
-      }
-
-      try {
-        // Verify the kicker is the project owner
-        const project = await payload.findByID({
-          collection: "projects",
-          id: projectId,
-        });
-
-        const projectOwnerId =
-          typeof project.user === "string"
-            ? project.user
-            : (project.user as any)?.id;
+  "kick-user": defineSocketHandler({
+    schema: z.object({
+      projectId: z.string().min(1),
+      userId: z.string().min(1),
+    }),
+    access: async ({ projectId }, { payload, user }) =>
+      (await getProjectOwnerId(payload, projectId)) === user.id,
+    handler: async ({ projectId, userId }, { io }) => {
+      // Find and kick the user's sockets
+      const roomName = `project:${projectId}`;
+      const socketsInRoom = await io.in(roomName).fetchSockets();
 
-        if (socket.user!.id !== projectOwnerId) {
-          socket.emit("kick-error", {
-            message: "Only the project owner can kick users",
+      let kicked = false;
+      for (const s of socketsInRoom) {
+        // socket.data.user is available for sockets on every instance
+        const socketUser = s.data.user;
+        if (String(socketUser?.id) === userId) {
+          s.emit("kicked-from-project", {
+            projectId,
+            message: "You have been removed from this project",
           });
-          return;
+          s.leave(roomName);
+          kicked = true;
         }
-
-        // Find and kick the user's sockets
-        const roomName = `project:${projectId}`;
-        const socketsInRoom = await io.in(roomName).fetchSockets();
-
-        let kicked = false;
-        for (const s of socketsInRoom) {
-          const socketUser = (s as any).user;
-          if (socketUser?.id === userId) {
-            s.emit("kicked-from-project", {
-              projectId,
-              message: "You have been removed from this project",
-            });
-            s.leave(roomName);
-            kicked = true;
-          }
-        }
-
-        if (kicked) {
-          socket.to(roomName).emit("project:user-left", userId);
-          socket.emit("kick-success", { userId });
-        }
-      } catch (error) {
-        payload.logger.error("Error kicking user:", error);
-        socket.emit("kick-error", { message: "Failed to kick user" });
       }
-    }
-  );
 
-  // Handle disconnection - clean up project presence
-  socket.on("disconnect", () => {
-    payload.logger.info(
-      `Client disconnected: ${socket.id}, User: ${
-        socket.user?.email || socket.user?.id
-      }`
-    );
-
-    // Notify all project rooms that this user left
-    const rooms = Array.from(socket.rooms);
-
-    for (const room of rooms) {
-      if (
-        typeof room === "string" &&
-        room.startsWith("project:") &&
-        socket.user
-      ) {
-        socket.to(room).emit("project:user-left", socket.user.id);
-        payload.logger.info(
-          `Notified room ${room} that user ${socket.user.id} left`
-        );
-      }
-    }
-  });
-};
+      return { kicked };
+    },
+  }),
+});
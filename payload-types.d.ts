@@ -11,7 +11,7 @@ declare module "payload" {
    */
   export type Config = {
     collections?: CollectionConfig[];
-    globals?: any[];
+    globals?: GlobalConfig[];
     plugins?: any[];
     onInit?: (payload: any) => Promise<void> | void;
     [key: string]: any;
@@ -30,6 +30,27 @@ declare module "payload" {
     [key: string]: any;
   }
 
+  /**
+   * Global Config type
+   */
+  export interface GlobalConfig {
+    slug: string;
+    hooks?: {
+      afterChange?: Array<(args: any) => Promise<any> | any>;
+      [key: string]: any;
+    };
+    [key: string]: any;
+  }
+
+  /**
+   * Where query type
+   */
+  export type Where = {
+    and?: Where[];
+    or?: Where[];
+    [key: string]: any;
+  };
+
   /**
    * Payload instance type
    */
@@ -41,6 +62,10 @@ declare module "payload" {
     };
     secret: string;
     findByID: (args: any) => Promise<any>;
+    auth: (args: { headers: Headers; [key: string]: any }) => Promise<{
+      user: any;
+      [key: string]: any;
+    }>;
     [key: string]: any;
   };
 
@@ -0,0 +1,120 @@
+import type { Payload } from "payload";
+import { matchesWhere } from "./matchesWhere";
+
+/**
+ * Build a minimal Payload request for evaluating access functions
+ * on behalf of a socket user outside of an HTTP request
+ */
+export function createAccessRequest(payload: Payload, user: any): any {
+  return {
+    payload,
+    user,
+    context: {},
+    headers: new Headers(),
+    query: {},
+    locale: undefined,
+    fallbackLocale: undefined,
+    t: (key: string) => key,
+  };
+}
+
+/**
+ * Check a user against the `access.read` rules of a collection or global
+ *
+ * Access functions returning a `Where` query are evaluated against the
+ * document in memory. Collections without a read access function follow
+ * Payload's default of allowing any authenticated user.
+ */
+export async function checkReadAccess({
+  payload,
+  user,
+  collection,
+  global,
+  id,
+  doc,
+}: {
+  payload: Payload;
+  user: any;
+  collection?: string;
+  global?: string;
+  id?: string | number;
+  doc: any;
+}): Promise<boolean> {
+  const config = getEntityConfig(payload, { collection, global });
+  const readAccess = config?.access?.read;
+
+  if (!readAccess) {
+    return Boolean(user);
+  }
+
+  const result = await readAccess({
+    req: createAccessRequest(payload, user),
+    id,
+    data: doc,
+  });
+
+  if (typeof result === "object" && result !== null) {
+    return matchesWhere(doc, result);
+  }
+
+  return Boolean(result);
+}
+
+/**
+ * Check a user against the `access.readVersions` rules of a collection, which
+ * decide whether the user may read drafts
+ *
+ * `Where` queries apply to the versions collection, so they are evaluated
+ * against the document wrapped as a version (`parent` and `version`).
+ */
+export async function checkDraftAccess({
+  payload,
+  user,
+  collection,
+  id,
+  doc,
+}: {
+  payload: Payload;
+  user: any;
+  collection: string;
+  id?: string | number;
+  doc: any;
+}): Promise<boolean> {
+  const config = getEntityConfig(payload, { collection });
+  const readVersions = config?.access?.readVersions;
+
+  if (!readVersions) {
+    return Boolean(user);
+  }
+
+  const result = await readVersions({
+    req: createAccessRequest(payload, user),
+    id,
+  });
+
+  if (typeof result === "object" && result !== null) {
+    return matchesWhere({ parent: id, version: doc }, result);
+  }
+
+  return Boolean(result);
+}
+
+/**
+ * Find the sanitized config of a collection or global
+ */
+export function getEntityConfig(
+  payload: Payload,
+  target: { collection?: string; global?: string },
+): any {
+  if (target.collection) {
+    return payload.collections?.[target.collection]?.config;
+  }
+
+  if (target.global) {
+    return payload.globals?.config?.find(
+      (global: any) => global.slug === target.global,
+    );
+  }
+
+  return undefined;
+}
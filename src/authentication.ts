@@ -0,0 +1,138 @@
+import type { Payload } from "payload";
+import type { Socket } from "socket.io";
+import jwt from "jsonwebtoken";
+
+/**
+ * Build the request headers Payload's auth strategies read from the
+ * Socket.IO handshake
+ *
+ * Handshake headers (e.g. the `payload-token` cookie) are passed through.
+ * Credentials sent in `handshake.auth` take precedence:
+ * - `token`: a Payload JWT, sent as `Authorization: JWT <token>`
+ * - `apiKey` (and `collection`, default "users"): a Payload API key, sent as
+ *   `Authorization: <collection> API-Key <apiKey>`
+ */
+export function getHandshakeHeaders(socket: Socket): Headers {
+  const headers = new Headers();
+
+  Object.entries(socket.handshake.headers).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => headers.append(key, item));
+    } else if (value !== undefined) {
+      headers.set(key, value);
+    }
+  });
+
+  const { token, apiKey, collection = "users" } = socket.handshake.auth || {};
+
+  if (typeof token === "string" && token) {
+    headers.set("authorization", `JWT ${token}`);
+  } else if (typeof apiKey === "string" && apiKey) {
+    headers.set("authorization", `${collection} API-Key ${apiKey}`);
+  }
+
+  return headers;
+}
+
+/**
+ * Check whether a user may connect
+ * Returns the reason the user is rejected, or null if the user may connect
+ */
+export function getUserRejection(payload: Payload, user: any): string | null {
+  if (user.lockUntil && new Date(user.lockUntil).getTime() > Date.now()) {
+    return "User is locked";
+  }
+
+  const authConfig = payload.collections?.[user.collection]?.config?.auth;
+  if (authConfig?.verify && user._verified === false) {
+    return "User is not verified";
+  }
+
+  return null;
+}
+
+/**
+ * Authenticate a socket through Payload's auth strategies
+ *
+ * Uses the same strategies as HTTP requests (JWT, API keys, cookies and any
+ * custom strategy), so sockets are resolved to the same user document.
+ * Returns null if no strategy authenticated the socket.
+ */
+export async function authenticateSocket(
+  payload: Payload,
+  socket: Socket,
+): Promise<any> {
+  const { user } = await payload.auth({
+    headers: getHandshakeHeaders(socket),
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  // `lockUntil` is a hidden field, so the strategies return the user without
+  // it and none of them checks it; read it again for getUserRejection
+  const authConfig = payload.collections?.[user.collection]?.config?.auth;
+  if (authConfig?.maxLoginAttempts) {
+    const { lockUntil } = await payload.findByID({
+      collection: user.collection,
+      id: user.id,
+      depth: 0,
+      showHiddenFields: true,
+    });
+
+    return { ...user, lockUntil };
+  }
+
+  return user;
+}
+
+/**
+ * Find the JWT a socket authenticated with
+ * Checks `handshake.auth.token`, then the `Authorization` header and finally
+ * Payload's auth cookie. Returns null for API keys and custom strategies.
+ */
+function getHandshakeToken(payload: Payload, socket: Socket): string | null {
+  const { token } = socket.handshake.auth || {};
+  if (typeof token === "string" && token) {
+    return token;
+  }
+
+  const authorization = socket.handshake.headers.authorization;
+  const match = authorization?.match(/^(?:JWT|Bearer) (.+)$/);
+  if (match) {
+    return match[1];
+  }
+
+  const cookieName = `${payload.config?.cookiePrefix || "payload"}-token`;
+  const cookie = (socket.handshake.headers.cookie || "")
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${cookieName}=`));
+
+  return cookie
+    ? decodeURIComponent(cookie.slice(cookieName.length + 1))
+    : null;
+}
+
+/**
+ * Get the time (ms since epoch) at which the socket's JWT expires
+ * Returns null if the socket did not authenticate with an expiring JWT
+ */
+export function getTokenExpiry(
+  payload: Payload,
+  socket: Socket,
+): number | null {
+  const token = getHandshakeToken(payload, socket);
+  if (!token) {
+    return null;
+  }
+
+  // The token has already been verified by Payload's auth strategy
+  const decoded = jwt.decode(token);
+  if (!decoded || typeof decoded !== "object" || !decoded.exp) {
+    return null;
+  }
+
+  return decoded.exp * 1000;
+}
@@ -21,6 +21,17 @@ export const initSocketIO = async (httpServer?: any): Promise<void> => {
   console.warn("initSocketIO called in browser environment - this is a no-op");
 };
 
+/**
+ * Browser-safe mock for initSocketEmitter
+ * Does nothing in browser environment
+ */
+export const initSocketEmitter = async (payload?: any): Promise<void> => {
+  // No-op in browser
+  console.warn(
+    "initSocketEmitter called in browser environment - this is a no-op",
+  );
+};
+
 /**
  * Browser-safe mock for SocketIOManager
  * Returns a minimal mock class in browser environment
@@ -30,3 +41,31 @@ export class SocketIOManager {
     // No-op in browser
   }
 }
+
+/**
+ * Browser-safe mock for publish
+ * Messages can only be published on the server
+ */
+export const publish = async (payload?: any, options?: any): Promise<void> => {
+  console.warn("publish called in browser environment - this is a no-op");
+};
+
+/**
+ * Browser-safe mock for getSocketManager
+ * Always returns null in browser environment
+ */
+export const getSocketManager = (payload?: any): null => null;
+
+// Handler declarations are plain objects, safe to import with the config
+export { defineSocketHandler, defineSocketHandlers } from "./socketHandlers";
+
+// Real-time client for browsers, also available as `payload-socket-plugin/client`
+export { createRealtimeClient } from "./client";
+export type {
+  RealtimeClient,
+  RealtimeClientOptions,
+  RealtimeEventHandler,
+  CollectionSubscribeOptions,
+} from "./client";
+export { applyChanges } from "./diff";
+export type * from "./types";
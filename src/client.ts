@@ -0,0 +1,794 @@
+import { io, Socket, ManagerOptions, SocketOptions } from "socket.io-client";
+import type { Where } from "payload";
+import { matchesWhere } from "./matchesWhere";
+import type {
+  RealtimeEvent,
+  RealtimeEventPayload,
+  ReplayResult,
+  SocketAck,
+  SocketError,
+  TokenExpiry,
+  AuthRevocation,
+  DocMutationRequest,
+  MutationOperation,
+  LiveQueryRequest,
+  SubscriptionResult,
+  InboundEventError,
+  SocketHandlers,
+  SocketHandlerInput,
+  SocketHandlerResult,
+} from "./types";
+
+export { applyChanges } from "./diff";
+
+/**
+ * Handler for events received through a client subscription
+ */
+export type RealtimeEventHandler<TDoc = any> = (
+  event: RealtimeEvent<TDoc>,
+) => void;
+
+/**
+ * Options for `createRealtimeClient`
+ */
+export interface RealtimeClientOptions {
+  /** URL of the server running the Socket.IO plugin */
+  url: string;
+
+  /**
+   * Payload JWT used to authenticate the socket
+   * Pass a function to fetch a fresh token on every (re)connect, e.g. after
+   * refreshing it with Payload's `/refresh-token` endpoint. The function is
+   * also called to refresh the token of the live connection before it expires.
+   */
+  token?: string | (() => string | undefined | Promise<string | undefined>);
+
+  /**
+   * Socket.IO endpoint path
+   * @default "/socket.io"
+   */
+  path?: string;
+
+  /**
+   * Replay missed events after reconnecting (requires the server's
+   * `replay` option)
+   * @default true
+   */
+  replay?: boolean;
+
+  /**
+   * Receive events in batches (requires the server's `batch` option)
+   * Handlers are still called once per event, in order.
+   * @default false
+   */
+  batch?: boolean;
+
+  /**
+   * Called when the server can no longer replay the events of a room
+   * The client should refetch the affected collection or global
+   */
+  onResyncRequired?: (room: string) => void;
+
+  /**
+   * Called when the connection is rejected, e.g. because the token expired
+   * Return a new token to retry, or nothing to give up
+   */
+  onAuthError?: (
+    error: Error,
+  ) => string | undefined | void | Promise<string | undefined | void>;
+
+  /**
+   * Called when the server reports that the token expired
+   * Unless the server only warns, the socket is disconnected afterwards.
+   */
+  onTokenExpired?: (expiry: TokenExpiry) => void;
+
+  /**
+   * Called when the server disconnects the socket because the user logged
+   * out, was deleted or can no longer connect
+   * The socket does not reconnect on its own afterwards.
+   */
+  onAuthRevoked?: (revocation: AuthRevocation) => void;
+
+  /**
+   * Called when the server drops an event this client sent, e.g. because it
+   * exceeded the server's `rateLimit`
+   */
+  onEventError?: (error: InboundEventError) => void;
+
+  /** Additional socket.io-client options */
+  socketOptions?: Partial<ManagerOptions & SocketOptions>;
+}
+
+/**
+ * Options for collection subscriptions
+ */
+export interface CollectionSubscribeOptions {
+  /** Only receive events whose document matches this query */
+  where?: Where;
+  /** Called when the server rejects the subscription */
+  onError?: (error: SocketError) => void;
+}
+
+/**
+ * Typed real-time client for the Socket.IO plugin
+ *
+ * `TCollections` maps collection slugs to document types, e.g. Payload's
+ * generated `Config["collections"]`. `THandlers` is the type of the server's
+ * `handlers` option.
+ */
+export interface RealtimeClient<
+  TCollections extends Record<string, any> = Record<string, any>,
+  TGlobals extends Record<string, any> = Record<string, any>,
+  THandlers extends SocketHandlers = SocketHandlers,
+> {
+  /** Underlying socket.io-client socket */
+  socket: Socket;
+
+  /**
+   * Subscribe to events of a collection
+   * Returns a function that removes the subscription
+   */
+  subscribe<TSlug extends keyof TCollections & string>(
+    collection: TSlug,
+    handler: RealtimeEventHandler<TCollections[TSlug]>,
+    options?: CollectionSubscribeOptions,
+  ): () => void;
+
+  /**
+   * Subscribe to events of a single document
+   * Returns a function that removes the subscription
+   */
+  subscribeDoc<TSlug extends keyof TCollections & string>(
+    collection: TSlug,
+    id: string | number,
+    handler: RealtimeEventHandler<TCollections[TSlug]>,
+    onError?: (error: SocketError) => void,
+  ): () => void;
+
+  /**
+   * Subscribe to updates of a global
+   * Returns a function that removes the subscription
+   */
+  subscribeGlobal<TSlug extends keyof TGlobals & string>(
+    global: TSlug,
+    handler: RealtimeEventHandler<TGlobals[TSlug]>,
+    onError?: (error: SocketError) => void,
+  ): () => void;
+
+  /**
+   * Receive every event the user is authorized for, across all collections
+   * and globals
+   * Returns a function that removes the subscription
+   */
+  subscribeAll(
+    handler: RealtimeEventHandler,
+    onError?: (error: SocketError) => void,
+  ): () => void;
+
+  /**
+   * Keep the result set of a query in sync
+   * `onChange` is called with the current documents after the initial page
+   * and after every change. Returns a function that removes the query.
+   */
+  liveQuery<TSlug extends keyof TCollections & string>(
+    collection: TSlug,
+    query: Omit<LiveQueryRequest, "id" | "collection">,
+    onChange: (docs: TCollections[TSlug][]) => void,
+    onError?: (error: SocketError) => void,
+  ): () => void;
+
+  /**
+   * Create a document over the socket (requires the server's `mutations`
+   * option). Resolves with the created document or an error.
+   */
+  createDoc<TSlug extends keyof TCollections & string>(
+    collection: TSlug,
+    data: Partial<TCollections[TSlug]>,
+  ): Promise<SocketAck<TCollections[TSlug]>>;
+
+  /** Update a document over the socket */
+  updateDoc<TSlug extends keyof TCollections & string>(
+    collection: TSlug,
+    id: string | number,
+    data: Partial<TCollections[TSlug]>,
+  ): Promise<SocketAck<TCollections[TSlug]>>;
+
+  /** Delete a document over the socket */
+  deleteDoc<TSlug extends keyof TCollections & string>(
+    collection: TSlug,
+    id: string | number,
+  ): Promise<SocketAck<TCollections[TSlug]>>;
+
+  /**
+   * Call a handler declared in the server's `handlers` option
+   * Resolves with the handler's acknowledgement.
+   */
+  call<TEvent extends keyof THandlers & string>(
+    event: TEvent,
+    input: SocketHandlerInput<THandlers[TEvent]>,
+  ): Promise<SocketAck<SocketHandlerResult<THandlers[TEvent]>>>;
+
+  /**
+   * Send a fresh token to the server without reconnecting
+   * Uses the `token` option when no token is passed; a passed token is also
+   * used for later reconnects.
+   */
+  refreshToken(token?: string): Promise<SocketAck<TokenExpiry>>;
+
+  /** Connect the socket (clients connect automatically when created) */
+  connect(): void;
+
+  /** Disconnect the socket and keep subscriptions for a later connect */
+  disconnect(): void;
+}
+
+interface CollectionHandler {
+  handler: RealtimeEventHandler;
+  where?: Where;
+  onError?: (error: SocketError) => void;
+}
+
+interface FeedHandler {
+  handler: RealtimeEventHandler;
+  onError?: (error: SocketError) => void;
+}
+
+interface LiveQueryEntry {
+  request: LiveQueryRequest;
+  docs: any[];
+  onChange: (docs: any[]) => void;
+  onError?: (error: SocketError) => void;
+}
+
+interface DocHandlers {
+  collection: string;
+  id: string | number;
+  handlers: Set<RealtimeEventHandler>;
+  onError?: (error: SocketError) => void;
+}
+
+/**
+ * Create a real-time client
+ *
+ * Subscriptions are sent again after every reconnect, and events missed
+ * while disconnected are replayed when the server has `replay` enabled.
+ *
+ * @example
+ * ```ts
+ * import { createRealtimeClient } from 'payload-socket-plugin/browser';
+ * import type { Config } from './payload-types';
+ *
+ * const client = createRealtimeClient<Config['collections']>({
+ *   url: 'http://localhost:3000',
+ *   token: () => localStorage.getItem('payload-token') ?? undefined,
+ * });
+ *
+ * const unsubscribe = client.subscribe('posts', (event) => {
+ *   console.log(event.type, event.doc?.title);
+ * });
+ * ```
+ */
+export function createRealtimeClient<
+  TCollections extends Record<string, any> = Record<string, any>,
+  TGlobals extends Record<string, any> = Record<string, any>,
+  THandlers extends SocketHandlers = SocketHandlers,
+>(
+  options: RealtimeClientOptions,
+): RealtimeClient<TCollections, TGlobals, THandlers> {
+  const {
+    url,
+    path,
+    replay = true,
+    batch = false,
+    socketOptions = {},
+  } = options;
+
+  let token = options.token;
+  const collectionHandlers = new Map<string, Set<CollectionHandler>>();
+  const docHandlers = new Map<string, DocHandlers>();
+  const globalHandlers = new Map<string, Set<FeedHandler>>();
+  const allHandlers = new Set<FeedHandler>();
+  const liveQueries = new Map<string, LiveQueryEntry>();
+  let nextQueryId = 0;
+  const lastSeen: Record<string, number> = {};
+
+  const socket = io(url, {
+    path: path || "/socket.io",
+    ...socketOptions,
+    auth: async (callback: (data: object) => void) => {
+      const currentToken = typeof token === "function" ? await token() : token;
+      callback({ token: currentToken, batch });
+    },
+  });
+
+  const docKey = (collection: string, id: string | number) =>
+    `${collection}:${id}`;
+
+  /**
+   * Track rooms the client has not received an event of yet from their
+   * current sequence number, so replay also covers the events missed before
+   * their first one
+   */
+  const seedLastSeen = (seq: Record<string, number> = {}) => {
+    Object.entries(seq).forEach(([room, value]) => {
+      if (lastSeen[room] === undefined) {
+        lastSeen[room] = value;
+      }
+    });
+  };
+
+  /**
+   * Send the server-side subscription for a collection
+   * The server keeps one filter per collection, so the filters of all local
+   * handlers are combined; any unfiltered handler removes the filter.
+   * Resolves once the server has acknowledged the subscription.
+   */
+  const syncCollection = (collection: string) =>
+    new Promise<void>((resolve) => {
+      const handlers = collectionHandlers.get(collection);
+
+      if (!handlers || handlers.size === 0) {
+        socket.emit("unsubscribe", collection);
+        resolve();
+        return;
+      }
+
+      const filters = Array.from(handlers).map((entry) => entry.where);
+      const subscription = filters.some((where) => !where)
+        ? collection
+        : {
+            collection,
+            where:
+              filters.length === 1 ? filters[0] : { or: filters as Where[] },
+          };
+
+      socket.emit(
+        "subscribe",
+        subscription,
+        (response: SocketAck<SubscriptionResult>) => {
+          const rejection = response.ok
+            ? response.data?.rejected[0]?.error
+            : response.error;
+
+          if (response.ok) {
+            seedLastSeen(response.data?.seq);
+          }
+
+          if (rejection) {
+            handlers.forEach((entry) => entry.onError?.(rejection));
+          }
+          resolve();
+        },
+      );
+    });
+
+  const subscribeGlobalsOnServer = (globals: string[]) =>
+    new Promise<void>((resolve) => {
+      socket.emit(
+        "subscribe-global",
+        globals,
+        (response: SocketAck<SubscriptionResult>) => {
+          const rejected = response.ok
+            ? response.data?.rejected || []
+            : globals.map((slug) => ({ slug, error: response.error }));
+
+          if (response.ok) {
+            seedLastSeen(response.data?.seq);
+          }
+
+          rejected.forEach(({ slug, error }) => {
+            globalHandlers
+              .get(slug)
+              ?.forEach((entry) => entry.onError?.(error));
+          });
+          resolve();
+        },
+      );
+    });
+
+  const subscribeAllOnServer = () =>
+    new Promise<void>((resolve) => {
+      socket.emit(
+        "subscribe-all",
+        (response: SocketAck<{ seq: Record<string, number> }>) => {
+          if (response.ok) {
+            seedLastSeen(response.data?.seq);
+          } else {
+            allHandlers.forEach((entry) => entry.onError?.(response.error));
+          }
+          resolve();
+        },
+      );
+    });
+
+  const subscribeDocOnServer = (
+    collection: string,
+    id: string | number,
+    onError?: (error: SocketError) => void,
+  ) =>
+    new Promise<void>((resolve) => {
+      socket.emit(
+        "subscribe-doc",
+        { collection, id },
+        (response: SocketAck<{ seq: Record<string, number> }>) => {
+          if (response.ok) {
+            seedLastSeen(response.data?.seq);
+          } else {
+            onError?.(response.error);
+          }
+          resolve();
+        },
+      );
+    });
+
+  const subscribeQuery = (entry: LiveQueryEntry) => {
+    socket.emit(
+      "query:subscribe",
+      entry.request,
+      (response: SocketAck<{ docs: any[] }>) => {
+        if (!response.ok) {
+          entry.onError?.(response.error);
+          return;
+        }
+
+        entry.docs = response.data?.docs || [];
+        entry.onChange([...entry.docs]);
+      },
+    );
+  };
+
+  /**
+   * Re-send every subscription, then ask for the events missed meanwhile
+   * Rooms the server cannot replay are reported via `payload:resync-required`
+   */
+  const resubscribe = async () => {
+    // Subscriptions are checked asynchronously; wait for them so their rooms
+    // are joined before replaying
+    const subscriptions = Array.from(collectionHandlers.keys()).map(
+      syncCollection,
+    );
+
+    if (globalHandlers.size > 0) {
+      subscriptions.push(
+        subscribeGlobalsOnServer(Array.from(globalHandlers.keys())),
+      );
+    }
+
+    if (allHandlers.size > 0) {
+      subscriptions.push(subscribeAllOnServer());
+    }
+
+    // Live queries start over from a fresh initial page
+    liveQueries.forEach(subscribeQuery);
+
+    await Promise.all([
+      ...subscriptions,
+      ...Array.from(docHandlers.values()).map(({ collection, id, onError }) =>
+        subscribeDocOnServer(collection, id, onError),
+      ),
+    ]);
+
+    if (replay && Object.keys(lastSeen).length > 0) {
+      socket.emit("replay", { ...lastSeen });
+    }
+  };
+
+  socket.on("connect", resubscribe);
+
+  socket.on(
+    "connect_error",
+    async (error: Error & { data?: { code?: string } }) => {
+      // A new token does not help against the server's connection limits
+      if (!options.onAuthError || error.data?.code === "CONNECTION_LIMIT") {
+        return;
+      }
+
+      const newToken = await options.onAuthError(error);
+      if (newToken) {
+        token = newToken;
+        socket.connect();
+      }
+    },
+  );
+
+  const refreshToken = async (
+    newToken?: string,
+  ): Promise<SocketAck<TokenExpiry>> => {
+    if (newToken) {
+      token = newToken;
+    }
+
+    const currentToken =
+      newToken ?? (typeof token === "function" ? await token() : token);
+    if (!currentToken) {
+      return {
+        ok: false,
+        error: { code: "INVALID_REQUEST", message: "No token available" },
+      };
+    }
+
+    return new Promise((resolve) => {
+      socket.emit("auth:refresh", { token: currentToken }, resolve);
+    });
+  };
+
+  const mutate = (
+    operation: MutationOperation,
+    request: DocMutationRequest,
+  ): Promise<SocketAck<any>> =>
+    new Promise((resolve) => {
+      socket.emit(`doc:${operation}`, request, resolve);
+    });
+
+  socket.on("auth:expiring", () => {
+    // Only a token function can provide a fresher token
+    if (typeof token === "function") {
+      void refreshToken();
+    }
+  });
+
+  socket.on("auth:expired", (expiry: TokenExpiry) => {
+    options.onTokenExpired?.(expiry);
+  });
+
+  socket.on("auth:revoked", (revocation: AuthRevocation) => {
+    options.onAuthRevoked?.(revocation);
+  });
+
+  socket.on("payload:error", (error: InboundEventError) => {
+    options.onEventError?.(error);
+  });
+
+  socket.on("payload:resync-required", ({ room }: { room: string }) => {
+    delete lastSeen[room];
+    options.onResyncRequired?.(room);
+  });
+
+  /**
+   * Remember the latest sequence number received for an event's room
+   */
+  const trackSeq = (event: RealtimeEventPayload) => {
+    const room = event.global
+      ? `global:${event.global}`
+      : `collection:${event.collection}`;
+    if (typeof event.seq === "number") {
+      lastSeen[room] = Math.max(lastSeen[room] ?? 0, event.seq);
+    }
+  };
+
+  const handleEvent = (event: RealtimeEventPayload) => {
+    trackSeq(event);
+
+    if (event.global) {
+      globalHandlers
+        .get(event.global)
+        ?.forEach(({ handler }) => handler(event));
+      return;
+    }
+
+    collectionHandlers.get(event.collection!)?.forEach(({ handler, where }) => {
+      // Deletes carry no document; the server already matched the deleted one
+      if (!where || !event.doc || matchesWhere(event.doc, where)) {
+        handler(event);
+      }
+    });
+
+    docHandlers
+      .get(docKey(event.collection!, event.id))
+      ?.handlers.forEach((handler) => handler(event));
+  };
+
+  socket.on("payload:event", handleEvent);
+
+  // Batches hold events in delivery order
+  socket.on("payload:events", (events: RealtimeEventPayload[]) => {
+    events.forEach(handleEvent);
+  });
+
+  socket.on(
+    "query:added",
+    ({ queryId, doc, index }: { queryId: string; doc: any; index: number }) => {
+      const entry = liveQueries.get(queryId);
+      if (entry) {
+        entry.docs.splice(index, 0, doc);
+        entry.onChange([...entry.docs]);
+      }
+    },
+  );
+
+  socket.on(
+    "query:removed",
+    ({ queryId, id }: { queryId: string; id: string | number }) => {
+      const entry = liveQueries.get(queryId);
+      if (entry) {
+        entry.docs = entry.docs.filter((doc) => String(doc.id) !== String(id));
+        entry.onChange([...entry.docs]);
+      }
+    },
+  );
+
+  socket.on(
+    "query:changed",
+    ({ queryId, doc, index }: { queryId: string; doc: any; index: number }) => {
+      const entry = liveQueries.get(queryId);
+      if (entry) {
+        entry.docs[index] = doc;
+        entry.onChange([...entry.docs]);
+      }
+    },
+  );
+
+  socket.on(
+    "query:moved",
+    ({
+      queryId,
+      fromIndex,
+      toIndex,
+    }: {
+      queryId: string;
+      fromIndex: number;
+      toIndex: number;
+    }) => {
+      const entry = liveQueries.get(queryId);
+      if (entry) {
+        const [doc] = entry.docs.splice(fromIndex, 1);
+        entry.docs.splice(toIndex, 0, doc);
+        entry.onChange([...entry.docs]);
+      }
+    },
+  );
+
+  socket.on("payload:event:all", (event: RealtimeEventPayload) => {
+    trackSeq(event);
+    allHandlers.forEach(({ handler }) => handler(event));
+  });
+
+  return {
+    socket,
+
+    subscribe(collection, handler, subscribeOptions = {}) {
+      const entry: CollectionHandler = {
+        handler: handler as RealtimeEventHandler,
+        where: subscribeOptions.where,
+        onError: subscribeOptions.onError,
+      };
+      const handlers = collectionHandlers.get(collection) || new Set();
+      handlers.add(entry);
+      collectionHandlers.set(collection, handlers);
+
+      if (socket.connected) {
+        syncCollection(collection);
+      }
+
+      return () => {
+        handlers.delete(entry);
+        if (handlers.size === 0) {
+          collectionHandlers.delete(collection);
+        }
+        if (socket.connected) {
+          syncCollection(collection);
+        }
+      };
+    },
+
+    subscribeDoc(collection, id, handler, onError) {
+      const key = docKey(collection, id);
+      const entry = docHandlers.get(key) || {
+        collection,
+        id,
+        handlers: new Set<RealtimeEventHandler>(),
+        onError,
+      };
+      const isFirst = entry.handlers.size === 0;
+      entry.handlers.add(handler as RealtimeEventHandler);
+      docHandlers.set(key, entry);
+
+      if (isFirst && socket.connected) {
+        subscribeDocOnServer(collection, id, onError);
+      }
+
+      return () => {
+        entry.handlers.delete(handler as RealtimeEventHandler);
+        if (entry.handlers.size === 0) {
+          docHandlers.delete(key);
+          if (socket.connected) {
+            socket.emit("unsubscribe-doc", { collection, id });
+          }
+        }
+      };
+    },
+
+    subscribeGlobal(global, handler, onError) {
+      const entry: FeedHandler = {
+        handler: handler as RealtimeEventHandler,
+        onError,
+      };
+      const handlers = globalHandlers.get(global) || new Set();
+      const isFirst = handlers.size === 0;
+      handlers.add(entry);
+      globalHandlers.set(global, handlers);
+
+      if (isFirst && socket.connected) {
+        subscribeGlobalsOnServer([global]);
+      }
+
+      return () => {
+        handlers.delete(entry);
+        if (handlers.size === 0) {
+          globalHandlers.delete(global);
+          if (socket.connected) {
+            socket.emit("unsubscribe-global", global);
+          }
+        }
+      };
+    },
+
+    subscribeAll(handler, onError) {
+      const entry: FeedHandler = { handler, onError };
+      const isFirst = allHandlers.size === 0;
+      allHandlers.add(entry);
+
+      if (isFirst && socket.connected) {
+        subscribeAllOnServer();
+      }
+
+      return () => {
+        allHandlers.delete(entry);
+        if (allHandlers.size === 0 && socket.connected) {
+          socket.emit("unsubscribe-all");
+        }
+      };
+    },
+
+    liveQuery(collection, query, onChange, onError) {
+      const id = `query-${++nextQueryId}`;
+      const entry: LiveQueryEntry = {
+        request: { ...query, id, collection },
+        docs: [],
+        onChange,
+        onError,
+      };
+      liveQueries.set(id, entry);
+
+      if (socket.connected) {
+        subscribeQuery(entry);
+      }
+
+      return () => {
+        liveQueries.delete(id);
+        if (socket.connected) {
+          socket.emit("query:unsubscribe", { id });
+        }
+      };
+    },
+
+    createDoc(collection, data) {
+      return mutate("create", { collection, data });
+    },
+
+    updateDoc(collection, id, data) {
+      return mutate("update", { collection, id, data });
+    },
+
+    deleteDoc(collection, id) {
+      return mutate("delete", { collection, id });
+    },
+
+    call(event, input) {
+      return new Promise((resolve) => {
+        socket.emit(event, input, resolve);
+      });
+    },
+
+    refreshToken,
+
+    connect() {
+      socket.connect();
+    },
+
+    disconnect() {
+      socket.disconnect();
+    },
+  };
+}
@@ -0,0 +1,157 @@
+import type {
+  CoalesceWindow,
+  EmitEventOptions,
+  RealtimeEventPayload,
+} from "./types";
+
+/**
+ * An event waiting for its coalescing window to close
+ */
+interface PendingEvent {
+  event: RealtimeEventPayload;
+  options: EmitEventOptions;
+  /** When the first event of the burst was received */
+  firstAt: number;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Merges bursts of events for the same document into a single event
+ *
+ * - create + update(s) → create with the latest document
+ * - update + update(s) → update with the latest document, diffed against the
+ *   document before the first update
+ * - publish/unpublish + update(s), or the other way around → the latest
+ *   publish or unpublish
+ * - create + delete → nothing
+ * - update + delete → delete
+ */
+export class EventCoalescer {
+  private pending = new Map<string, PendingEvent>();
+
+  constructor(
+    private emit: (
+      event: RealtimeEventPayload,
+      options: EmitEventOptions,
+    ) => void,
+  ) {}
+
+  add(
+    event: RealtimeEventPayload,
+    options: EmitEventOptions,
+    { window, maxDelay = window * 4 }: CoalesceWindow,
+  ): void {
+    const key = getKey(event);
+    const current = this.pending.get(key);
+    const now = Date.now();
+
+    if (current) {
+      clearTimeout(current.timer);
+      this.pending.delete(key);
+
+      const merged = this.merge(current, event, options);
+      if (!merged) {
+        return;
+      }
+
+      if (merged.event.type === "delete") {
+        // Nothing can follow a delete; send it right away
+        this.emit(merged.event, merged.options);
+        return;
+      }
+
+      this.schedule(key, { ...merged, firstAt: current.firstAt }, now, {
+        window,
+        maxDelay,
+      });
+      return;
+    }
+
+    if (event.type === "delete") {
+      this.emit(event, options);
+      return;
+    }
+
+    this.schedule(key, { event, options, firstAt: now }, now, {
+      window,
+      maxDelay,
+    });
+  }
+
+  /**
+   * Send every pending event immediately
+   */
+  flush(): void {
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+
+    pending.forEach(({ event, options, timer }) => {
+      clearTimeout(timer);
+      this.emit(event, options);
+    });
+  }
+
+  /**
+   * Send the pending event of an event's document (or global) immediately,
+   * so it goes out before the event
+   */
+  flushDocument(event: RealtimeEventPayload): void {
+    const key = getKey(event);
+    const current = this.pending.get(key);
+    if (!current) {
+      return;
+    }
+
+    clearTimeout(current.timer);
+    this.pending.delete(key);
+    this.emit(current.event, current.options);
+  }
+
+  private schedule(
+    key: string,
+    entry: Omit<PendingEvent, "timer">,
+    now: number,
+    { window, maxDelay }: Required<CoalesceWindow>,
+  ): void {
+    const delay = Math.max(0, Math.min(window, entry.firstAt + maxDelay - now));
+    const timer = setTimeout(() => {
+      this.pending.delete(key);
+      this.emit(entry.event, entry.options);
+    }, delay);
+    timer.unref();
+
+    this.pending.set(key, { ...entry, timer });
+  }
+
+  private merge(
+    current: PendingEvent,
+    event: RealtimeEventPayload,
+    options: EmitEventOptions,
+  ): { event: RealtimeEventPayload; options: EmitEventOptions } | null {
+    if (event.type === "delete") {
+      return current.event.type === "create" ? null : { event, options };
+    }
+
+    return {
+      event: {
+        ...event,
+        // Keep a create that started the burst, and the latest change of
+        // the document's status
+        type:
+          current.event.type === "create" || event.type === "update"
+            ? current.event.type
+            : event.type,
+        // Autosaves merged with a manual save are no longer autosaves
+        autosave: (current.event.autosave && event.autosave) || undefined,
+      },
+      // Changes are computed against the document before the burst
+      options: { ...options, previousDoc: current.options.previousDoc },
+    };
+  }
+}
+
+function getKey(event: RealtimeEventPayload): string {
+  return event.global
+    ? `global:${event.global}`
+    : `${event.collection}:${event.id}`;
+}
@@ -0,0 +1,156 @@
+import type { FieldChange, JsonPatchOperation } from "./types";
+
+interface Change {
+  segments: string[];
+  previousValue: any;
+  value: any;
+}
+
+/**
+ * List the paths that differ between two versions of a document
+ * Objects are compared field by field; arrays and scalar values are compared
+ * as a whole and reported as a single change.
+ */
+export function diffDocuments(previous: any, next: any): FieldChange[] {
+  return collectChanges(previous, next, []).map(
+    ({ segments, previousValue, value }) => ({
+      path: segments.join("."),
+      previousValue,
+      value,
+    }),
+  );
+}
+
+/**
+ * List the differences between two versions of a document as RFC 6902
+ * JSON Patch operations that turn `previous` into `next`
+ */
+export function diffDocumentsAsJsonPatch(
+  previous: any,
+  next: any,
+): JsonPatchOperation[] {
+  return collectChanges(previous, next, []).map(
+    ({ segments, previousValue, value }) => {
+      const path = `/${segments.map(escapePointerSegment).join("/")}`;
+
+      if (previousValue === undefined) {
+        return { op: "add", path, value };
+      }
+
+      if (value === undefined) {
+        return { op: "remove", path };
+      }
+
+      return { op: "replace", path, value };
+    },
+  );
+}
+
+/**
+ * Recursively collect the changed paths below `segments`
+ */
+function collectChanges(
+  previous: any,
+  next: any,
+  segments: string[],
+): Change[] {
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    const changes: Change[] = [];
+
+    keys.forEach((key) => {
+      changes.push(
+        ...collectChanges(previous[key], next[key], [...segments, key]),
+      );
+    });
+
+    return changes;
+  }
+
+  if (isEqual(previous, next)) {
+    return [];
+  }
+
+  return [{ segments, previousValue: previous, value: next }];
+}
+
+function isPlainObject(value: any): boolean {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every((key) => isEqual(a[key], b[key]));
+  }
+
+  return false;
+}
+
+/**
+ * Escape a JSON Pointer segment (RFC 6901)
+ */
+function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Apply the `changes` of an update event to a cached copy of the document
+ * Accepts both the "paths" and the "json-patch" format and returns a new
+ * document; the cached copy is not modified.
+ */
+export function applyChanges(
+  doc: any,
+  changes: FieldChange[] | JsonPatchOperation[],
+): any {
+  const patched = structuredClone(doc ?? {});
+
+  for (const change of changes) {
+    const segments =
+      "op" in change
+        ? change.path.slice(1).split("/").map(unescapePointerSegment)
+        : change.path.split(".");
+    const remove = "op" in change ? change.op === "remove" : false;
+
+    let target = patched;
+    for (const segment of segments.slice(0, -1)) {
+      if (!target[segment] || typeof target[segment] !== "object") {
+        target[segment] = {};
+      }
+      target = target[segment];
+    }
+
+    const key = segments[segments.length - 1];
+    if (remove || change.value === undefined) {
+      delete target[key];
+    } else {
+      target[key] = change.value;
+    }
+  }
+
+  return patched;
+}
+
+/**
+ * Unescape a JSON Pointer segment (RFC 6901)
+ */
+function unescapePointerSegment(segment: string): string {
+  return segment.replace(/~1/g, "/").replace(/~0/g, "~");
+}
@@ -0,0 +1,83 @@
+import type { DocumentStatus, EventType } from "./types";
+
+/**
+ * Arguments of an `afterChange` hook that tell how a document was saved
+ */
+interface SaveArgs {
+  operation: "create" | "update";
+  doc: any;
+  previousDoc?: any;
+  req?: any;
+  draft?: boolean;
+  autosave?: boolean;
+}
+
+/**
+ * Read the `_status` of a document with drafts enabled
+ * Returns undefined for documents without drafts.
+ */
+export function getDocumentStatus(doc: any): DocumentStatus | undefined {
+  const status = doc?._status;
+  return status === "draft" || status === "published" ? status : undefined;
+}
+
+/**
+ * Check whether a save was an autosave
+ * The admin panel sends `autosave=true` as a query parameter; Local API calls
+ * can set `context.autosave`.
+ */
+export function isAutosave(args: Omit<SaveArgs, "operation" | "doc">): boolean {
+  return (
+    args.autosave === true ||
+    isFlagSet(args.req?.query?.autosave) ||
+    args.req?.context?.autosave === true
+  );
+}
+
+/**
+ * Check whether a save only stored a draft, leaving the published version
+ * in place
+ * The admin panel and REST API send `draft=true` as a query parameter; Local
+ * API calls can set `context.draft`.
+ */
+function isDraftSave(args: Omit<SaveArgs, "operation" | "doc">): boolean {
+  return (
+    args.draft === true ||
+    isAutosave(args) ||
+    isFlagSet(args.req?.query?.draft) ||
+    args.req?.context?.draft === true
+  );
+}
+
+/**
+ * Determine the event type of a saved document
+ * - a draft that becomes published → publish
+ * - a published document saved as draft outside of a draft save → unpublish
+ * - anything else → create or update
+ */
+export function getChangeEventType(args: SaveArgs): EventType {
+  if (args.operation === "create") {
+    return "create";
+  }
+
+  const status = getDocumentStatus(args.doc);
+  const previousStatus = getDocumentStatus(args.previousDoc);
+
+  if (status === "published" && previousStatus === "draft") {
+    return "publish";
+  }
+
+  if (
+    status === "draft" &&
+    previousStatus === "published" &&
+    !isDraftSave(args)
+  ) {
+    return "unpublish";
+  }
+
+  return "update";
+}
+
+function isFlagSet(value: unknown): boolean {
+  return value === true || value === "true";
+}
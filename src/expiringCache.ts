@@ -0,0 +1,77 @@
+/**
+ * In-memory cache of promises whose entries expire after a fixed time
+ * Concurrent lookups of the same key share a single load, and failed loads
+ * are not kept.
+ */
+export class ExpiringCache<T> {
+  private entries = new Map<string, { value: Promise<T>; expiresAt: number }>();
+
+  constructor(
+    /** ms entries are kept; 0 disables caching */
+    private ttl: number,
+    /** Entries kept before expired ones are pruned */
+    private maxEntries = 10000,
+  ) {}
+
+  get(key: string, load: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expiresAt > now) {
+      return entry.value;
+    }
+
+    const value = load();
+    if (this.ttl <= 0) {
+      return value;
+    }
+
+    if (this.entries.size >= this.maxEntries) {
+      this.prune(now);
+    }
+
+    this.entries.set(key, { value, expiresAt: now + this.ttl });
+    value.catch(() => {
+      if (this.entries.get(key)?.value === value) {
+        this.entries.delete(key);
+      }
+    });
+
+    return value;
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove every entry whose key starts with `prefix`
+   */
+  deleteByPrefix(prefix: string): void {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+
+    // Still full: drop the oldest entries (Maps keep insertion order)
+    const excess = this.entries.size - this.maxEntries + 1;
+    if (excess > 0) {
+      Array.from(this.entries.keys())
+        .slice(0, excess)
+        .forEach((key) => this.entries.delete(key));
+    }
+  }
+}
@@ -0,0 +1,379 @@
+import type { Payload, Where } from "payload";
+import { createAccessRequest } from "./accessControl";
+
+interface RedactionContext {
+  req: any;
+  id?: string | number;
+  doc: any;
+}
+
+/**
+ * Check whether any field (at any depth) has an `access.read` function
+ * If not, redaction does not depend on the recipient and can run once
+ */
+export function hasFieldReadAccess(fields: any[] = []): boolean {
+  return fields.some((field) => {
+    if (field.access?.read) {
+      return true;
+    }
+
+    if (field.type === "tabs") {
+      return (field.tabs || []).some((tab: any) =>
+        hasFieldReadAccess(tab.fields),
+      );
+    }
+
+    if (field.type === "blocks") {
+      return (field.blocks || []).some((block: any) =>
+        hasFieldReadAccess(block.fields),
+      );
+    }
+
+    return hasFieldReadAccess(field.fields);
+  });
+}
+
+/**
+ * Remove the fields a user may not read from a document, the way Payload's
+ * REST API does: `hidden` fields are always removed and fields whose
+ * `access.read` denies the user are removed with everything below them
+ *
+ * Populated relationships, uploads and joins are reduced to IDs: they were
+ * read as the user who made the change, not as the recipient.
+ *
+ * Returns a redacted copy; the original document is not modified.
+ */
+export async function redactDocument({
+  payload,
+  fields,
+  doc,
+  user,
+  id,
+}: {
+  payload: Payload;
+  fields: any[];
+  doc: any;
+  user: any;
+  id?: string | number;
+}): Promise<any> {
+  if (!doc || typeof doc !== "object") {
+    return doc;
+  }
+
+  const redacted = structuredClone(doc);
+
+  await redactSiblingData(fields, redacted, {
+    req: createAccessRequest(payload, user),
+    id,
+    doc,
+  });
+
+  return redacted;
+}
+
+/**
+ * Redact the data described by a list of fields
+ * Presentational fields (rows, collapsibles, unnamed tabs and groups) share
+ * their parent's data, so their sub-fields are redacted at the same level
+ */
+async function redactSiblingData(
+  fields: any[] = [],
+  siblingData: any,
+  context: RedactionContext,
+): Promise<void> {
+  if (!siblingData || typeof siblingData !== "object") {
+    return;
+  }
+
+  for (const field of fields) {
+    if (field.type === "tabs") {
+      for (const tab of field.tabs || []) {
+        if (tab.name) {
+          await redactNamedField(
+            { ...tab, type: "group" },
+            siblingData,
+            context,
+          );
+        } else {
+          await redactSiblingData(tab.fields, siblingData, context);
+        }
+      }
+      continue;
+    }
+
+    if (!field.name) {
+      await redactSiblingData(field.fields, siblingData, context);
+      continue;
+    }
+
+    await redactNamedField(field, siblingData, context);
+  }
+}
+
+/**
+ * Redact a single named field and recurse into its sub-fields
+ */
+async function redactNamedField(
+  field: any,
+  siblingData: any,
+  context: RedactionContext,
+): Promise<void> {
+  if (!(field.name in siblingData)) {
+    return;
+  }
+
+  if (field.hidden) {
+    delete siblingData[field.name];
+    return;
+  }
+
+  if (field.access?.read) {
+    const canRead = await field.access.read({
+      req: context.req,
+      id: context.id,
+      doc: context.doc,
+      data: context.doc,
+      siblingData,
+    });
+
+    if (!canRead) {
+      delete siblingData[field.name];
+      return;
+    }
+  }
+
+  const value = siblingData[field.name];
+
+  switch (field.type) {
+    case "group":
+      await redactSiblingData(field.fields, value, context);
+      break;
+
+    case "array":
+      if (Array.isArray(value)) {
+        for (const row of value) {
+          await redactSiblingData(field.fields, row, context);
+        }
+      }
+      break;
+
+    case "blocks":
+      if (Array.isArray(value)) {
+        for (const row of value) {
+          const block = (field.blocks || []).find(
+            (candidate: any) => candidate.slug === row?.blockType,
+          );
+          await redactSiblingData(block?.fields, row, context);
+        }
+      }
+      break;
+
+    case "relationship":
+    case "upload":
+      siblingData[field.name] = depopulate(value);
+      break;
+
+    case "join":
+      if (Array.isArray(value?.docs)) {
+        siblingData[field.name] = { ...value, docs: depopulate(value.docs) };
+      }
+      break;
+  }
+}
+
+/**
+ * Replace populated documents of a relationship value with their IDs
+ * Polymorphic values keep their `relationTo`.
+ */
+function depopulate(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(depopulate);
+  }
+
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  if ("relationTo" in value && "value" in value) {
+    return { relationTo: value.relationTo, value: depopulate(value.value) };
+  }
+
+  return "id" in value ? value.id : value;
+}
+
+/**
+ * Find the first path of a `where` query a user may not query, the way
+ * Payload's REST API validates query paths: paths through `hidden` fields
+ * or fields whose `access.read` denies the user are rejected
+ *
+ * Field access is called without a document, like Payload does for queries;
+ * access functions that throw deny the path. Returns null if every path may
+ * be queried.
+ */
+export async function findUnreadableWherePath({
+  payload,
+  fields,
+  where,
+  user,
+}: {
+  payload: Payload;
+  fields: any[];
+  where: Where;
+  user: any;
+}): Promise<string | null> {
+  const req = createAccessRequest(payload, user);
+
+  for (const path of getWherePaths(where)) {
+    let candidates = getNamedFields(fields);
+
+    for (const segment of path.split(".")) {
+      const field = candidates.find((candidate) => candidate.name === segment);
+      // Unknown segments (array indexes, relationship paths) end the walk
+      if (!field) {
+        break;
+      }
+
+      if (field.hidden) {
+        return path;
+      }
+
+      if (field.access?.read) {
+        let canRead = false;
+        try {
+          canRead = Boolean(await field.access.read({ req }));
+        } catch {
+          canRead = false;
+        }
+
+        if (!canRead) {
+          return path;
+        }
+      }
+
+      candidates =
+        field.type === "blocks"
+          ? (field.blocks || []).flatMap((block: any) =>
+              getNamedFields(block.fields),
+            )
+          : getNamedFields(field.fields);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * List the field paths a `where` query compares
+ */
+function getWherePaths(where: Where): string[] {
+  return Object.entries(where || {}).flatMap(([key, value]) =>
+    key === "and" || key === "or"
+      ? (Array.isArray(value) ? value : []).flatMap((nested: Where) =>
+          getWherePaths(nested),
+        )
+      : [key],
+  );
+}
+
+/**
+ * List the named fields of a field list, looking through presentational
+ * fields (rows, collapsibles, unnamed tabs); named tabs act as groups
+ */
+function getNamedFields(fields: any[] = []): any[] {
+  return fields.flatMap((field) => {
+    if (field.type === "tabs") {
+      return (field.tabs || []).flatMap((tab: any) =>
+        tab.name ? [{ ...tab, type: "group" }] : getNamedFields(tab.fields),
+      );
+    }
+
+    return field.name ? [field] : getNamedFields(field.fields);
+  });
+}
+
+/**
+ * Apply a collection's `selectFields`/`omitFields` options to a document
+ * Paths use dot notation and apply to every row of array fields. The `id`
+ * field is always kept when selecting.
+ */
+export function projectDocument(
+  doc: any,
+  {
+    selectFields,
+    omitFields,
+  }: { selectFields?: string[]; omitFields?: string[] },
+): any {
+  if (!doc || typeof doc !== "object") {
+    return doc;
+  }
+
+  let projected = doc;
+
+  if (selectFields && selectFields.length > 0) {
+    projected = selectPaths(
+      doc,
+      ["id", ...selectFields].map((path) => path.split(".")),
+    );
+  }
+
+  if (omitFields && omitFields.length > 0) {
+    projected = structuredClone(projected);
+    omitFields.forEach((path) => omitPath(projected, path.split(".")));
+  }
+
+  return projected;
+}
+
+/**
+ * Keep only the given paths of a value
+ */
+function selectPaths(value: any, paths: string[][]): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => selectPaths(item, paths));
+  }
+
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  // Group sub-paths by their first segment; `true` selects the whole value
+  const selection = new Map<string, string[][] | true>();
+  for (const [key, ...rest] of paths) {
+    const current = selection.get(key);
+    if (rest.length === 0) {
+      selection.set(key, true);
+    } else if (current !== true) {
+      selection.set(key, [...(current || []), rest]);
+    }
+  }
+
+  const selected: any = {};
+  selection.forEach((subPaths, key) => {
+    if (key in value) {
+      selected[key] =
+        subPaths === true ? value[key] : selectPaths(value[key], subPaths);
+    }
+  });
+
+  return selected;
+}
+
+/**
+ * Remove a path from a value in place
+ */
+function omitPath(value: any, [key, ...rest]: string[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => omitPath(item, [key, ...rest]));
+    return;
+  }
+
+  if (!value || typeof value !== "object" || !(key in value)) {
+    return;
+  }
+
+  if (rest.length === 0) {
+    delete value[key];
+  } else {
+    omitPath(value[key], rest);
+  }
+}
@@ -1,5 +1,6 @@
-import type { Config, CollectionConfig } from "payload";
+import type { Config, CollectionConfig, GlobalConfig } from "payload";
 import { SocketIOManager } from "./socketManager";
+import { getChangeEventType, getDocumentStatus, isAutosave } from "./drafts";
 import {
   RealtimeEventsPluginOptions,
   RealtimeEventPayload,
@@ -11,7 +12,7 @@ type Plugin = (config: Config) => Config;
 /**
  * Payload CMS Plugin for Real-time Events
  *
- * This plugin enables real-time event broadcasting for collection changes
+ * This plugin enables real-time event broadcasting for collection and global changes
  * using Socket.IO with Redis adapter for multi-instance support.
  *
  * @example
@@ -74,19 +75,49 @@ export const socketPlugin = (
       return false;
     };
 
+    /**
+     * Helper function to check if events should be emitted for a global
+     */
+    const shouldEmitForGlobal = (globalSlug: string): boolean => {
+      return options.includeGlobals?.includes(globalSlug) ?? false;
+    };
+
+    /**
+     * Helper function to check if an operation is broadcast for a collection
+     * Publish and unpublish events count as updates unless listed themselves
+     */
+    const shouldEmitOperation = (
+      collectionSlug: string,
+      type: EventType,
+    ): boolean => {
+      const operations =
+        options.collectionOptions?.[collectionSlug]?.operations;
+      if (!operations) {
+        return true;
+      }
+
+      return (
+        operations.includes(type) ||
+        ((type === "publish" || type === "unpublish") &&
+          operations.includes("update"))
+      );
+    };
+
     /**
      * Create event payload from hook arguments
      */
     const createEventPayload = (
       type: EventType,
-      collection: string,
+      target: { collection: string } | { global: string },
       args: any,
     ): RealtimeEventPayload => {
       return {
         type,
-        collection,
+        ...target,
         id: args.doc?.id || args.id,
         doc: type === "delete" ? undefined : args.doc,
+        status: getDocumentStatus(args.doc),
+        autosave: isAutosave(args) || undefined,
         user: args.req?.user
           ? {
               id: args.req.user.id,
@@ -112,26 +143,37 @@ export const socketPlugin = (
           ...collection,
           hooks: {
             ...collection.hooks,
-            // After change hook - only emit for updates
+            // After change hook - emit for creates and updates
             afterChange: [
               ...(collection.hooks?.afterChange || []),
               async (args) => {
-                try {
-                  // Only emit events for updates, not creates
-                  if (args.operation !== "update") {
-                    return;
-                  }
+                const type = getChangeEventType(args);
 
+                try {
                   const event = createEventPayload(
-                    "update",
-                    collection.slug,
+                    type,
+                    { collection: collection.slug },
                     args,
                   );
 
-                  await socketManager.emitEvent(event);
+                  // Clients must not see changes that may still roll back
+                  await socketManager.afterCommit(args.req, () => {
+                    // Live queries follow every change, whatever is broadcast
+                    socketManager.refreshLiveQueries(
+                      collection.slug,
+                      args.doc.id,
+                      false,
+                    );
+
+                    if (shouldEmitOperation(collection.slug, type)) {
+                      socketManager.queueEvent(event, {
+                        previousDoc: args.previousDoc,
+                      });
+                    }
+                  });
                 } catch (error) {
                   console.error(
-                    `Error emitting update event for ${collection.slug}:`,
+                    `Error emitting ${type} event for ${collection.slug}:`,
                     error,
                   );
                 }
@@ -144,11 +186,23 @@ export const socketPlugin = (
                 try {
                   const event = createEventPayload(
                     "delete",
-                    collection.slug,
+                    { collection: collection.slug },
                     args,
                   );
 
-                  await socketManager.emitEvent(event);
+                  await socketManager.afterCommit(args.req, () => {
+                    socketManager.refreshLiveQueries(
+                      collection.slug,
+                      args.id ?? args.doc.id,
+                      true,
+                    );
+
+                    if (shouldEmitOperation(collection.slug, "delete")) {
+                      socketManager.queueEvent(event, {
+                        previousDoc: args.doc,
+                      });
+                    }
+                  });
                 } catch (error) {
                   console.error(
                     `Error emitting delete event for ${collection.slug}:`,
@@ -161,6 +215,134 @@ export const socketPlugin = (
         };
       }) || [];
 
+    /**
+     * Add hooks to auth collections that keep their users' sockets in sync
+     * Sockets are disconnected on logout and deletion, and re-evaluated when
+     * the user changes (e.g. a role downgrade or a locked account)
+     */
+    const addUserHooks = (collection: CollectionConfig): CollectionConfig => {
+      if (!collection.auth) {
+        return collection;
+      }
+
+      return {
+        ...collection,
+        hooks: {
+          ...collection.hooks,
+          afterLogout: [
+            ...(collection.hooks?.afterLogout || []),
+            async ({ req }: any) => {
+              if (!req?.user) {
+                return;
+              }
+
+              try {
+                // With sessions, only the sockets of the ended session go
+                await socketManager.revokeUserSockets(
+                  { collection: collection.slug, id: req.user.id },
+                  { reason: "logout" },
+                  req.user._sid,
+                );
+              } catch (error) {
+                console.error(
+                  `Error revoking sockets on logout for ${collection.slug}:`,
+                  error,
+                );
+              }
+            },
+          ],
+          afterChange: [
+            ...(collection.hooks?.afterChange || []),
+            async ({ doc, operation, req }) => {
+              if (operation !== "update") {
+                return;
+              }
+
+              try {
+                // The user is read again, so wait until the change is visible
+                await socketManager.afterCommit(req, () =>
+                  socketManager.refreshUserSockets({
+                    collection: collection.slug,
+                    id: doc.id,
+                  }),
+                );
+              } catch (error) {
+                console.error(
+                  `Error refreshing sockets of ${collection.slug} user:`,
+                  error,
+                );
+              }
+            },
+          ],
+          afterDelete: [
+            ...(collection.hooks?.afterDelete || []),
+            async ({ doc, id, req }) => {
+              try {
+                await socketManager.afterCommit(req, () =>
+                  socketManager.revokeUserSockets(
+                    { collection: collection.slug, id: doc?.id || id },
+                    { reason: "deleted" },
+                  ),
+                );
+              } catch (error) {
+                console.error(
+                  `Error revoking sockets of deleted ${collection.slug} user:`,
+                  error,
+                );
+              }
+            },
+          ],
+        },
+      };
+    };
+
+    /**
+     * Add hooks to globals
+     */
+    const globalsWithHooks: GlobalConfig[] | undefined =
+      incomingConfig.globals?.map((global) => {
+        // Skip if events should not be emitted for this global
+        if (!shouldEmitForGlobal(global.slug)) {
+          return global;
+        }
+
+        return {
+          ...global,
+          hooks: {
+            ...global.hooks,
+            // After change hook - globals can only be updated (or published)
+            afterChange: [
+              ...(global.hooks?.afterChange || []),
+              async (args) => {
+                const type = getChangeEventType({
+                  ...args,
+                  operation: "update",
+                });
+
+                try {
+                  const event = createEventPayload(
+                    type,
+                    { global: global.slug },
+                    args,
+                  );
+
+                  await socketManager.afterCommit(args.req, () =>
+                    socketManager.queueEvent(event, {
+                      previousDoc: args.previousDoc,
+                    }),
+                  );
+                } catch (error) {
+                  console.error(
+                    `Error emitting ${type} event for global ${global.slug}:`,
+                    error,
+                  );
+                }
+              },
+            ],
+          },
+        };
+      });
+
     /**
      * Add onInit hook to initialize Socket.IO server
      */
@@ -178,7 +360,8 @@ export const socketPlugin = (
 
     return {
       ...incomingConfig,
-      collections: collectionsWithHooks,
+      collections: collectionsWithHooks.map(addUserHooks),
+      globals: globalsWithHooks,
       onInit,
     };
   };
@@ -187,4 +370,6 @@ export const socketPlugin = (
 // Export types for external use
 export * from "./types";
 export { SocketIOManager } from "./socketManager";
-export { initSocketIO } from "./initSocketIO";
+export { initSocketIO, initSocketEmitter } from "./initSocketIO";
+export { publish, getSocketManager } from "./publish";
+export { defineSocketHandler, defineSocketHandlers } from "./socketHandlers";
@@ -47,3 +47,45 @@ export async function initSocketIO(
     throw error;
   }
 }
+
+/**
+ * Initialize an emitter-only Socket.IO instance for processes that do not
+ * serve sockets, such as job workers, seed scripts and worker containers
+ * Events of this process are published through Redis (`redis.url` is
+ * required) and delivered by the instances that called `initSocketIO`.
+ *
+ * @example
+ * ```ts
+ * import { initSocketEmitter } from 'payload-socket-plugin';
+ * import { getPayload } from 'payload';
+ * import config from '@payload-config';
+ *
+ * const payload = await getPayload({ config });
+ * await initSocketEmitter(payload);
+ *
+ * await payload.jobs.run();
+ * ```
+ */
+export async function initSocketEmitter(
+  payloadInstance: Payload,
+): Promise<void> {
+  try {
+    const socketManager = (payloadInstance as any)
+      .__socketManager as SocketIOManager;
+
+    if (!socketManager) {
+      payloadInstance.logger.warn(
+        "Socket.IO manager not found. Make sure socketPlugin is configured.",
+      );
+      return;
+    }
+
+    await socketManager.initEmitter(payloadInstance);
+  } catch (error) {
+    payloadInstance.logger.error(
+      "Failed to initialize Socket.IO emitter:",
+      error,
+    );
+    throw error;
+  }
+}
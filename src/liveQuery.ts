@@ -0,0 +1,366 @@
+import type { Payload, Where } from "payload";
+import { matchesWhere } from "./matchesWhere";
+import type {
+  AuthenticatedSocket,
+  LiveQueryMessage,
+  LiveQueryRequest,
+  SocketAck,
+  SocketError,
+} from "./types";
+
+/**
+ * A live query of a local socket with its current result set
+ */
+interface LiveQuery {
+  socket: AuthenticatedSocket;
+  id: string;
+  collection: string;
+  where?: Where;
+  sort: string[];
+  limit: number;
+  docs: any[];
+}
+
+/**
+ * Callbacks the live query manager uses to run queries as a socket's user
+ */
+interface LiveQueryContext {
+  /** Fetch the full user document of a socket user */
+  resolveUser: (user: any) => Promise<any>;
+  /**
+   * Check whether a user may receive events of a document, on top of the
+   * collection's read access
+   */
+  canReceive: (user: any, collection: string, doc: any) => Promise<boolean>;
+}
+
+/**
+ * Keeps the result sets of live queries in sync with document changes
+ *
+ * Each query's initial page is fetched through the Local API as the socket's
+ * user. Changed documents are then read again as each user and re-checked
+ * against the queries; when a document leaves a full page the query is run
+ * again to find the document that takes its place.
+ */
+export class LiveQueryManager {
+  /** Live queries by socket ID and query ID */
+  private queries = new Map<string, Map<string, LiveQuery>>();
+
+  constructor(
+    private payload: Payload,
+    private context: LiveQueryContext,
+    private maxLimit = 100,
+  ) {}
+
+  /**
+   * Register a live query and return its initial page
+   */
+  async subscribe(
+    socket: AuthenticatedSocket,
+    request: LiveQueryRequest,
+  ): Promise<SocketAck<{ docs: any[] }>> {
+    const { id, collection, where, limit = 10 } = request || {};
+
+    if (!id || !collection) {
+      return invalid("Query ID and collection are required");
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > this.maxLimit) {
+      return invalid(`Limit must be between 1 and ${this.maxLimit}`);
+    }
+
+    const query: LiveQuery = {
+      socket,
+      id,
+      collection,
+      where,
+      sort: this.getSort(collection, request.sort),
+      limit,
+      docs: [],
+    };
+
+    query.docs = await this.find(query);
+
+    const socketQueries = this.queries.get(socket.id) || new Map();
+    socketQueries.set(id, query);
+    this.queries.set(socket.id, socketQueries);
+
+    return { ok: true, data: { docs: query.docs } };
+  }
+
+  unsubscribe(socketId: string, queryId: string): void {
+    const socketQueries = this.queries.get(socketId);
+    socketQueries?.delete(queryId);
+    if (socketQueries?.size === 0) {
+      this.queries.delete(socketId);
+    }
+  }
+
+  /**
+   * Number of live queries a socket holds
+   */
+  count(socketId: string): number {
+    return this.queries.get(socketId)?.size ?? 0;
+  }
+
+  has(socketId: string, queryId: string): boolean {
+    return this.queries.get(socketId)?.has(queryId) ?? false;
+  }
+
+  removeSocket(socketId: string): void {
+    this.queries.delete(socketId);
+  }
+
+  /**
+   * Re-check the live queries of a collection after one of its documents
+   * was created, updated or deleted
+   */
+  async handleChange(
+    collection: string,
+    id: string | number,
+    deleted: boolean,
+  ): Promise<void> {
+    const queries = Array.from(this.queries.values()).flatMap((socketQueries) =>
+      Array.from(socketQueries.values()).filter(
+        (query) => query.collection === collection,
+      ),
+    );
+
+    // Each user reads the changed document once, whatever its query count
+    const docs = new Map<string, Promise<any>>();
+    const readDoc = (user: any) => {
+      const key = `${user.collection || "users"}:${user.id}`;
+      let doc = docs.get(key);
+      if (!doc) {
+        doc = deleted
+          ? Promise.resolve(null)
+          : this.readDoc(collection, id, user);
+        docs.set(key, doc);
+      }
+      return doc;
+    };
+
+    await Promise.all(
+      queries.map(async (query) => {
+        try {
+          const doc = await readDoc(query.socket.data.user);
+          await this.update(query, id, doc);
+        } catch (error) {
+          this.payload.logger.error(
+            `Error updating live query ${query.id} of ${collection}:`,
+            error,
+          );
+        }
+      }),
+    );
+  }
+
+  /**
+   * Apply a changed document (null if it is gone or unreadable) to a query
+   */
+  private async update(
+    query: LiveQuery,
+    id: string | number,
+    doc: any,
+  ): Promise<void> {
+    const wasIncluded = query.docs.some((item) => sameId(item.id, id));
+    const matches = Boolean(doc) && matchesWhere(doc, query.where);
+
+    if (!wasIncluded && !matches) {
+      return;
+    }
+
+    let docs = query.docs.filter((item) => !sameId(item.id, id));
+    if (matches) {
+      docs.push(doc);
+      docs.sort((a, b) => compareDocs(a, b, query.sort));
+    }
+
+    const wasFull = query.docs.length >= query.limit;
+    docs = docs.slice(0, query.limit);
+
+    // A document that left a full page, or moved to its end, may have to
+    // make room for a document beyond the page
+    const index = docs.findIndex((item) => sameId(item.id, id));
+    if (wasFull && wasIncluded && (index === -1 || index === docs.length - 1)) {
+      docs = await this.find(query);
+    }
+
+    this.emitChanges(query, docs);
+  }
+
+  /**
+   * Emit the messages that turn the query's result set into `docs`
+   */
+  private emitChanges(query: LiveQuery, docs: any[]): void {
+    const messages: LiveQueryMessage[] = [];
+    const queryId = query.id;
+
+    let working = query.docs.filter((item) =>
+      docs.some((doc) => sameId(doc.id, item.id)),
+    );
+    query.docs
+      .filter((item) => !working.includes(item))
+      .forEach((item) =>
+        messages.push({ type: "removed", queryId, id: item.id }),
+      );
+
+    docs.forEach((doc, index) => {
+      const fromIndex = working.findIndex((item) => sameId(item.id, doc.id));
+
+      if (fromIndex === -1) {
+        messages.push({ type: "added", queryId, doc, index });
+        working = [...working.slice(0, index), doc, ...working.slice(index)];
+        return;
+      }
+
+      const previous = working[fromIndex];
+      if (fromIndex !== index) {
+        messages.push({
+          type: "moved",
+          queryId,
+          id: doc.id,
+          fromIndex,
+          toIndex: index,
+        });
+        working = working.filter((_, i) => i !== fromIndex);
+        working = [...working.slice(0, index), doc, ...working.slice(index)];
+      }
+
+      if (JSON.stringify(previous) !== JSON.stringify(doc)) {
+        messages.push({ type: "changed", queryId, doc, index });
+        working[index] = doc;
+      }
+    });
+
+    query.docs = docs;
+    messages.forEach((message) =>
+      query.socket.emit(`query:${message.type}`, message),
+    );
+  }
+
+  /**
+   * Run a query as its socket's user
+   */
+  private async find(query: LiveQuery): Promise<any[]> {
+    const user = await this.context.resolveUser(query.socket.data.user);
+    const result = await this.payload.find({
+      collection: query.collection,
+      where: query.where,
+      sort: query.sort,
+      limit: query.limit,
+      depth: 0,
+      user,
+      overrideAccess: false,
+    });
+
+    const docs: any[] = [];
+    for (const doc of result.docs) {
+      if (
+        await this.context.canReceive(
+          query.socket.data.user,
+          query.collection,
+          doc,
+        )
+      ) {
+        docs.push(doc);
+      }
+    }
+    return docs;
+  }
+
+  /**
+   * Read a document as a user
+   * Returns null if the document does not exist or the user may not read it
+   */
+  private async readDoc(
+    collection: string,
+    id: string | number,
+    socketUser: any,
+  ): Promise<any> {
+    try {
+      const doc = await this.payload.findByID({
+        collection,
+        id,
+        depth: 0,
+        user: await this.context.resolveUser(socketUser),
+        overrideAccess: false,
+      });
+
+      return doc && (await this.context.canReceive(socketUser, collection, doc))
+        ? doc
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Normalize a sort to a list of fields, falling back to the collection's
+   * default sort and Payload's `-createdAt`
+   */
+  private getSort(
+    collection: string,
+    sort: string | string[] | undefined,
+  ): string[] {
+    const defaultSort =
+      this.payload.collections?.[collection]?.config?.defaultSort;
+    const value = sort || defaultSort || "-createdAt";
+
+    return (Array.isArray(value) ? value : value.split(","))
+      .map((field: string) => field.trim())
+      .filter(Boolean);
+  }
+}
+
+function invalid(message: string): { ok: false; error: SocketError } {
+  return { ok: false, error: { code: "INVALID_REQUEST", message } };
+}
+
+function sameId(a: string | number, b: string | number): boolean {
+  return String(a) === String(b);
+}
+
+/**
+ * Compare two documents by a list of sort fields (`-` for descending)
+ * Ties are broken by ID so the order is stable.
+ */
+function compareDocs(a: any, b: any, sort: string[]): number {
+  for (const field of sort) {
+    const descending = field.startsWith("-");
+    const path = descending ? field.slice(1) : field;
+    const result = compareValues(getValue(a, path), getValue(b, path));
+
+    if (result !== 0) {
+      return descending ? -result : result;
+    }
+  }
+
+  return compareValues(a.id, b.id);
+}
+
+function getValue(doc: any, path: string): any {
+  return path
+    .split(".")
+    .reduce((value, segment) => (value == null ? value : value[segment]), doc);
+}
+
+function compareValues(a: any, b: any): number {
+  if (a === b) {
+    return 0;
+  }
+
+  // Missing values sort first, like in ascending database sorts
+  if (a === null || a === undefined) {
+    return -1;
+  }
+  if (b === null || b === undefined) {
+    return 1;
+  }
+
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+
+  return String(a) < String(b) ? -1 : 1;
+}
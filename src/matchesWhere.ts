@@ -0,0 +1,226 @@
+import type { Where } from "payload";
+
+/**
+ * In-memory evaluation of Payload `where` queries against a document
+ *
+ * Supports the common Payload operators (`equals`, `not_equals`, `in`,
+ * `not_in`, `all`, `exists`, `like`, `contains`, `greater_than`,
+ * `greater_than_equal`, `less_than`, `less_than_equal`) combined with
+ * `and`/`or`. Dot-notation paths traverse groups, arrays and populated
+ * relationships. Unknown operators never match.
+ */
+export function matchesWhere(doc: any, where: Where | undefined): boolean {
+  if (!where || typeof where !== "object") {
+    return true;
+  }
+
+  if (!doc || typeof doc !== "object") {
+    return false;
+  }
+
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === "and") {
+      return (
+        Array.isArray(condition) &&
+        condition.every((subWhere) => matchesWhere(doc, subWhere))
+      );
+    }
+
+    if (key === "or") {
+      return (
+        Array.isArray(condition) &&
+        condition.some((subWhere) => matchesWhere(doc, subWhere))
+      );
+    }
+
+    if (!condition || typeof condition !== "object") {
+      return false;
+    }
+
+    const values = getValuesAtPath(doc, key);
+
+    return Object.entries(condition).every(([operator, operand]) =>
+      matchesOperator(values, operator, operand),
+    );
+  });
+}
+
+/**
+ * Collect all values at a dot-notation path
+ * Arrays are flattened so that `tags.name` matches any tag's name
+ */
+function getValuesAtPath(doc: any, path: string): any[] {
+  let values: any[] = [doc];
+
+  for (const segment of path.split(".")) {
+    values = values.flatMap((value) => {
+      if (value === null || value === undefined) {
+        return [];
+      }
+
+      const next = value[segment];
+      return Array.isArray(next) ? next : [next];
+    });
+  }
+
+  return values.map(normalizeValue);
+}
+
+/**
+ * Reduce populated relationships to their IDs so they compare like
+ * unpopulated ones
+ */
+function normalizeValue(value: any): any {
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    // Polymorphic relationship: { relationTo, value }
+    if ("relationTo" in value && "value" in value) {
+      return normalizeValue(value.value);
+    }
+
+    if ("id" in value) {
+      return value.id;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Compare two scalar values, treating numeric and string IDs as equal
+ */
+function isEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return false;
+  }
+
+  return String(a) === String(b);
+}
+
+/**
+ * Compare two values for ordering, supporting numbers, dates and strings
+ */
+function compare(a: any, b: any): number | null {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return null;
+  }
+
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+
+  const numA = Number(a);
+  const numB = Number(b);
+  if (!Number.isNaN(numA) && !Number.isNaN(numB)) {
+    return numA - numB;
+  }
+
+  const dateA = Date.parse(a);
+  const dateB = Date.parse(b);
+  if (!Number.isNaN(dateA) && !Number.isNaN(dateB)) {
+    return dateA - dateB;
+  }
+
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Normalize the operand of list operators (`in`, `not_in`, `all`)
+ */
+function toList(operand: any): any[] {
+  if (Array.isArray(operand)) {
+    return operand.map(normalizeValue);
+  }
+
+  if (typeof operand === "string") {
+    return operand.split(",").map((item) => item.trim());
+  }
+
+  return [normalizeValue(operand)];
+}
+
+function matchesOperator(
+  values: any[],
+  operator: string,
+  operand: any,
+): boolean {
+  const definedValues = values.filter(
+    (value) => value !== undefined && value !== null,
+  );
+
+  switch (operator) {
+    case "equals":
+      if (operand === null) {
+        return definedValues.length === 0;
+      }
+      return values.some((value) => isEqual(value, normalizeValue(operand)));
+
+    case "not_equals":
+      if (operand === null) {
+        return definedValues.length > 0;
+      }
+      return !values.some((value) => isEqual(value, normalizeValue(operand)));
+
+    case "in": {
+      const list = toList(operand);
+      return values.some((value) => list.some((item) => isEqual(value, item)));
+    }
+
+    case "not_in": {
+      const list = toList(operand);
+      return !values.some((value) => list.some((item) => isEqual(value, item)));
+    }
+
+    case "all": {
+      const list = toList(operand);
+      return list.every((item) => values.some((value) => isEqual(value, item)));
+    }
+
+    case "exists": {
+      const shouldExist = operand === true || operand === "true";
+      return shouldExist
+        ? definedValues.length > 0
+        : definedValues.length === 0;
+    }
+
+    case "like": {
+      // Every word of the operand must appear in the value, case-insensitive
+      const words = String(operand).toLowerCase().split(/\s+/).filter(Boolean);
+      return definedValues.some((value) => {
+        const text = String(value).toLowerCase();
+        return words.every((word) => text.includes(word));
+      });
+    }
+
+    case "contains": {
+      const needle = String(operand).toLowerCase();
+      return definedValues.some((value) =>
+        String(value).toLowerCase().includes(needle),
+      );
+    }
+
+    case "greater_than":
+      return values.some((value) => (compare(value, operand) ?? 0) > 0);
+
+    case "greater_than_equal":
+      return values.some((value) => {
+        const result = compare(value, operand);
+        return result !== null && result >= 0;
+      });
+
+    case "less_than":
+      return values.some((value) => (compare(value, operand) ?? 0) < 0);
+
+    case "less_than_equal":
+      return values.some((value) => {
+        const result = compare(value, operand);
+        return result !== null && result <= 0;
+      });
+
+    default:
+      return false;
+  }
+}
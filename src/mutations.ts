@@ -0,0 +1,126 @@
+import type { Payload } from "payload";
+import type {
+  DocMutationRequest,
+  MutationOperation,
+  SocketAck,
+  SocketError,
+} from "./types";
+
+/**
+ * Run a document operation requested over the socket as the given user
+ * Uses the Local API with `overrideAccess: false`, so the collection's
+ * access control, validation and hooks apply like for REST requests.
+ */
+export async function runMutation(
+  payload: Payload,
+  user: any,
+  operation: MutationOperation,
+  request: DocMutationRequest,
+): Promise<SocketAck<any>> {
+  const { collection, id, data, depth = 0 } = request;
+  const options = { collection, depth, user, overrideAccess: false };
+
+  try {
+    switch (operation) {
+      case "create":
+        return {
+          ok: true,
+          data: await payload.create({ ...options, data }),
+        };
+      case "update":
+        return {
+          ok: true,
+          data: await payload.update({ ...options, id, data }),
+        };
+      case "delete":
+        return {
+          ok: true,
+          data: await payload.delete({ ...options, id }),
+        };
+    }
+  } catch (error) {
+    const socketError = toSocketError(error);
+    if (socketError.code === "MUTATION_FAILED") {
+      payload.logger.error(
+        `Error running ${operation} on ${collection}:`,
+        error,
+      );
+    }
+    return { ok: false, error: socketError };
+  }
+}
+
+/**
+ * Validate a mutation request before running it
+ * Returns an error if the request is malformed or not allowed
+ */
+export function validateMutation(
+  allowlist: { [collectionSlug: string]: MutationOperation[] },
+  operation: MutationOperation,
+  request: DocMutationRequest,
+): SocketError | null {
+  const { collection, id, data } = request || ({} as DocMutationRequest);
+
+  if (!collection) {
+    return { code: "INVALID_REQUEST", message: "Collection is required" };
+  }
+
+  if (operation !== "create" && (id === undefined || id === null)) {
+    return { code: "INVALID_REQUEST", message: "Document ID is required" };
+  }
+
+  if (operation !== "delete" && (!data || typeof data !== "object")) {
+    return { code: "INVALID_REQUEST", message: "Data is required" };
+  }
+
+  // Only own keys, so slugs like "constructor" do not reach Object.prototype
+  const operations = Object.prototype.hasOwnProperty.call(allowlist, collection)
+    ? allowlist[collection]
+    : undefined;
+
+  if (!Array.isArray(operations) || !operations.includes(operation)) {
+    return {
+      code: "FORBIDDEN",
+      message: `${operation} is not allowed over the socket for collection: ${collection}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Map errors thrown by the Local API to socket errors
+ * Unexpected errors are reported as `fallback`, without their message, which
+ * may leak internals.
+ */
+export function toSocketError(
+  error: any,
+  fallback: SocketError = {
+    code: "MUTATION_FAILED",
+    message: "Failed to run the operation",
+  },
+): SocketError {
+  if (error?.name === "ValidationError" || error?.status === 400) {
+    return {
+      code: "VALIDATION_ERROR",
+      message: error.message || "The data is invalid",
+      errors: (error.data?.errors || []).map((fieldError: any) => ({
+        path: fieldError.path ?? fieldError.field,
+        message: fieldError.message,
+      })),
+    };
+  }
+
+  if (error?.status === 401 || error?.status === 403) {
+    return {
+      code: "FORBIDDEN",
+      message: "You are not allowed to perform this action",
+    };
+  }
+
+  if (error?.status === 404) {
+    return { code: "NOT_FOUND", message: "Document not found" };
+  }
+
+  return fallback;
+}
@@ -0,0 +1,186 @@
+import type Redis from "ioredis";
+import type { PresenceUser } from "./types";
+
+/**
+ * Presence of a single socket in a room
+ */
+export interface PresenceEntry {
+  socketId: string;
+  /** Instance the socket is connected to */
+  nodeId: string;
+  user: {
+    id: string | number;
+    email?: string;
+    collection?: string;
+  };
+  state?: Record<string, any>;
+  updatedAt: number;
+}
+
+/**
+ * Storage for presence entries, keyed by room and socket
+ */
+export interface PresenceStore {
+  set(room: string, entry: PresenceEntry): Promise<void>;
+  remove(room: string, socketId: string): Promise<void>;
+  list(room: string): Promise<PresenceEntry[]>;
+  /** Mark an instance as alive */
+  heartbeat(nodeId: string): Promise<void>;
+  /**
+   * Remove the entries of instances that stopped sending heartbeats
+   * Returns the removed entries per room
+   */
+  removeStale(): Promise<Map<string, PresenceEntry[]>>;
+}
+
+/**
+ * Key identifying a user across collections
+ */
+export function getUserKey(user: PresenceEntry["user"]): string {
+  return `${user.collection || "users"}:${user.id}`;
+}
+
+/**
+ * Group socket entries by user, so a user with several tabs is listed once
+ * The state of the most recently updated connection wins.
+ */
+export function toPresenceUsers(entries: PresenceEntry[]): PresenceUser[] {
+  const users = new Map<string, PresenceUser & { updatedAt: number }>();
+
+  for (const entry of entries) {
+    const key = getUserKey(entry.user);
+    const current = users.get(key);
+
+    if (!current) {
+      users.set(key, {
+        ...entry.user,
+        state: entry.state,
+        connections: 1,
+        updatedAt: entry.updatedAt,
+      });
+      continue;
+    }
+
+    current.connections += 1;
+    if (entry.updatedAt >= current.updatedAt) {
+      current.state = entry.state;
+      current.updatedAt = entry.updatedAt;
+    }
+  }
+
+  return Array.from(users.values()).map(({ updatedAt, ...user }) => user);
+}
+
+/**
+ * In-memory presence store for single-instance deployments
+ */
+export class MemoryPresenceStore implements PresenceStore {
+  private rooms = new Map<string, Map<string, PresenceEntry>>();
+
+  async set(room: string, entry: PresenceEntry): Promise<void> {
+    const entries = this.rooms.get(room) || new Map();
+    entries.set(entry.socketId, entry);
+    this.rooms.set(room, entries);
+  }
+
+  async remove(room: string, socketId: string): Promise<void> {
+    const entries = this.rooms.get(room);
+    entries?.delete(socketId);
+    if (entries && entries.size === 0) {
+      this.rooms.delete(room);
+    }
+  }
+
+  async list(room: string): Promise<PresenceEntry[]> {
+    return Array.from(this.rooms.get(room)?.values() || []);
+  }
+
+  async heartbeat(): Promise<void> {
+    // A single instance cannot outlive itself
+  }
+
+  async removeStale(): Promise<Map<string, PresenceEntry[]>> {
+    return new Map();
+  }
+}
+
+/**
+ * Redis-backed presence store shared by all instances
+ * Each instance refreshes a heartbeat key; entries of instances whose
+ * heartbeat expired (e.g. after a crash) are removed by the others.
+ */
+export class RedisPresenceStore implements PresenceStore {
+  private roomsKey = "payload:presence:rooms";
+
+  constructor(
+    private redis: Redis,
+    /** Seconds after which an instance without heartbeat is stale */
+    private staleAfter: number,
+  ) {}
+
+  private roomKey(room: string): string {
+    return `payload:presence:room:${room}`;
+  }
+
+  private nodeKey(nodeId: string): string {
+    return `payload:presence:node:${nodeId}`;
+  }
+
+  async set(room: string, entry: PresenceEntry): Promise<void> {
+    await this.redis
+      .multi()
+      .hset(this.roomKey(room), entry.socketId, JSON.stringify(entry))
+      .sadd(this.roomsKey, room)
+      .exec();
+  }
+
+  async remove(room: string, socketId: string): Promise<void> {
+    await this.redis.hdel(this.roomKey(room), socketId);
+  }
+
+  async list(room: string): Promise<PresenceEntry[]> {
+    const entries = await this.redis.hgetall(this.roomKey(room));
+    return Object.values(entries).map((entry) => JSON.parse(entry));
+  }
+
+  async heartbeat(nodeId: string): Promise<void> {
+    await this.redis.set(this.nodeKey(nodeId), "1", "EX", this.staleAfter);
+  }
+
+  async removeStale(): Promise<Map<string, PresenceEntry[]>> {
+    const removed = new Map<string, PresenceEntry[]>();
+    const aliveNodes = new Map<string, boolean>();
+    const rooms = await this.redis.smembers(this.roomsKey);
+
+    for (const room of rooms) {
+      const entries = await this.list(room);
+
+      if (entries.length === 0) {
+        await this.redis.srem(this.roomsKey, room);
+        continue;
+      }
+
+      const stale: PresenceEntry[] = [];
+      for (const entry of entries) {
+        if (!aliveNodes.has(entry.nodeId)) {
+          const exists = await this.redis.exists(this.nodeKey(entry.nodeId));
+          aliveNodes.set(entry.nodeId, exists === 1);
+        }
+
+        if (!aliveNodes.get(entry.nodeId)) {
+          stale.push(entry);
+        }
+      }
+
+      if (stale.length > 0) {
+        await this.redis.hdel(
+          this.roomKey(room),
+          ...stale.map((entry) => entry.socketId),
+        );
+        removed.set(room, stale);
+      }
+    }
+
+    return removed;
+  }
+}
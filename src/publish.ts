@@ -0,0 +1,51 @@
+import type { Payload } from "payload";
+import type { SocketIOManager } from "./socketManager";
+import type { PublishOptions } from "./types";
+
+/**
+ * Get the socket manager the plugin attached to a Payload instance
+ * Returns null if the plugin is not configured or disabled
+ */
+export function getSocketManager(payload: Payload): SocketIOManager | null {
+  return (payload as any).__socketManager || null;
+}
+
+/**
+ * Publish a custom message from hooks, endpoints or jobs
+ * Messages reach every instance; see `PublishOptions` for the targets.
+ *
+ * @example
+ * ```ts
+ * import { publish } from 'payload-socket-plugin';
+ *
+ * // Notify every socket of a user
+ * await publish(req.payload, {
+ *   user: { collection: 'users', id: req.user.id },
+ *   event: 'export:ready',
+ *   data: { url },
+ * });
+ *
+ * // Notify the subscribers of a project who may read it
+ * await publish(req.payload, {
+ *   collection: 'projects',
+ *   id: project.id,
+ *   event: 'project:archived',
+ *   data: project,
+ * });
+ * ```
+ */
+export async function publish<TData = any>(
+  payload: Payload,
+  options: PublishOptions<TData>,
+): Promise<void> {
+  const socketManager = getSocketManager(payload);
+
+  if (!socketManager) {
+    payload.logger.warn(
+      "Socket.IO manager not found. Make sure socketPlugin is configured.",
+    );
+    return;
+  }
+
+  await socketManager.publish(options);
+}
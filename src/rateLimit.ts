@@ -0,0 +1,142 @@
+import type Redis from "ioredis";
+import type { RateLimit } from "./types";
+
+/**
+ * Token buckets limiting how often a key may be used
+ */
+export interface RateLimiter {
+  /**
+   * Take a token from the bucket of `key`
+   * Returns false if the bucket is empty.
+   */
+  consume(key: string, limit: RateLimit): Promise<boolean>;
+}
+
+/**
+ * In-memory rate limiter for single-instance deployments
+ */
+export class MemoryRateLimiter implements RateLimiter {
+  private buckets = new Map<
+    string,
+    { tokens: number; updatedAt: number; fullAt: number }
+  >();
+
+  constructor(
+    /** Buckets kept before refilled ones are pruned */
+    private maxBuckets = 10000,
+  ) {}
+
+  async consume(
+    key: string,
+    { burst, perSecond }: RateLimit,
+  ): Promise<boolean> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key);
+    let tokens = bucket
+      ? Math.min(
+          burst,
+          bucket.tokens + ((now - bucket.updatedAt) / 1000) * perSecond,
+        )
+      : burst;
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+
+    if (!bucket && this.buckets.size >= this.maxBuckets) {
+      this.prune(now);
+    }
+
+    this.buckets.set(key, {
+      tokens,
+      updatedAt: now,
+      fullAt: now + ((burst - tokens) / perSecond) * 1000,
+    });
+
+    return allowed;
+  }
+
+  /**
+   * Remove buckets that have refilled, since a missing bucket behaves the
+   * same as a full one
+   */
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+
+    // Still full: drop the least recently created buckets
+    const excess = this.buckets.size - this.maxBuckets + 1;
+    if (excess > 0) {
+      Array.from(this.buckets.keys())
+        .slice(0, excess)
+        .forEach((key) => this.buckets.delete(key));
+    }
+  }
+}
+
+/**
+ * Refill the bucket by the time elapsed since its last use (on the Redis
+ * clock, so instances agree), then take a token if one is left
+ */
+const CONSUME_SCRIPT = `
+local burst = tonumber(ARGV[1])
+local perMs = tonumber(ARGV[2]) / 1000
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local bucket = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+local tokens = tonumber(bucket[1]) or burst
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(burst, tokens + math.max(0, now - updatedAt) * perMs)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updatedAt", now)
+redis.call("PEXPIRE", KEYS[1], math.ceil(burst / perMs) + 1000)
+return allowed
+`;
+
+/**
+ * Redis-backed rate limiter whose buckets are shared by all instances
+ */
+export class RedisRateLimiter implements RateLimiter {
+  constructor(private redis: Redis) {}
+
+  async consume(
+    key: string,
+    { burst, perSecond }: RateLimit,
+  ): Promise<boolean> {
+    const allowed = await this.redis.eval(
+      CONSUME_SCRIPT,
+      1,
+      `payload:ratelimit:${key}`,
+      burst,
+      perSecond,
+    );
+
+    return allowed === 1;
+  }
+}
+
+/**
+ * Approximate size in bytes of an event's arguments as sent over the wire
+ * Acknowledgement callbacks are not counted.
+ */
+export function getPayloadSize(args: unknown[]): number {
+  return args.reduce<number>((size, arg) => {
+    if (typeof arg === "function" || arg === undefined) {
+      return size;
+    }
+
+    if (Buffer.isBuffer(arg) || arg instanceof ArrayBuffer) {
+      return size + arg.byteLength;
+    }
+
+    return size + Buffer.byteLength(JSON.stringify(arg) ?? "");
+  }, 0);
+}
@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from "react";
+import type { RealtimeClient, CollectionSubscribeOptions } from "./client";
+import { applyChanges } from "./diff";
+import type { RealtimeEvent } from "./types";
+
+/**
+ * Subscribe to a collection for the lifetime of a component
+ * Calls `handler` for every event and returns the latest event received.
+ *
+ * @example
+ * ```tsx
+ * const lastEvent = useRealtimeCollection(client, 'posts', (event) => {
+ *   if (event.type === 'create') refetch();
+ * });
+ * ```
+ */
+export function useRealtimeCollection<
+  TCollections extends Record<string, any>,
+  TSlug extends keyof TCollections & string,
+>(
+  client: RealtimeClient<TCollections, any>,
+  collection: TSlug,
+  handler?: (event: RealtimeEvent<TCollections[TSlug]>) => void,
+  options: CollectionSubscribeOptions = {},
+): RealtimeEvent<TCollections[TSlug]> | null {
+  const [lastEvent, setLastEvent] = useState<RealtimeEvent<
+    TCollections[TSlug]
+  > | null>(null);
+
+  // Keep the latest handler without re-subscribing on every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  const onErrorRef = useRef(options.onError);
+  onErrorRef.current = options.onError;
+
+  const whereKey = JSON.stringify(options.where ?? null);
+
+  useEffect(() => {
+    return client.subscribe(
+      collection,
+      (event) => {
+        setLastEvent(event);
+        handlerRef.current?.(event);
+      },
+      {
+        ...options,
+        onError: (error) => onErrorRef.current?.(error),
+      },
+    );
+    // The filter is compared by value, not by identity
+  }, [client, collection, whereKey]);
+
+  return lastEvent;
+}
+
+/**
+ * State of a document kept in sync by `useRealtimeDoc`
+ */
+export interface RealtimeDocState<TDoc> {
+  /** Latest version of the document */
+  doc: TDoc | undefined;
+  /** Whether the document has been deleted (or unpublished) */
+  deleted: boolean;
+  /** Latest event received for the document */
+  lastEvent: RealtimeEvent<TDoc> | null;
+}
+
+/**
+ * Keep a single document in sync for the lifetime of a component
+ * Update events that only carry `changes` are applied to the current copy.
+ *
+ * @example
+ * ```tsx
+ * const { doc, deleted } = useRealtimeDoc(client, 'projects', id, initialProject);
+ * ```
+ */
+export function useRealtimeDoc<
+  TCollections extends Record<string, any>,
+  TSlug extends keyof TCollections & string,
+>(
+  client: RealtimeClient<TCollections, any>,
+  collection: TSlug,
+  id: string | number | null | undefined,
+  initialDoc?: TCollections[TSlug],
+): RealtimeDocState<TCollections[TSlug]> {
+  const [state, setState] = useState<RealtimeDocState<TCollections[TSlug]>>({
+    doc: initialDoc,
+    deleted: false,
+    lastEvent: null,
+  });
+
+  useEffect(() => {
+    setState({ doc: initialDoc, deleted: false, lastEvent: null });
+
+    if (id === null || id === undefined) {
+      return;
+    }
+
+    return client.subscribeDoc(collection, id, (event) => {
+      setState((current) => {
+        // Unpublish events without a document mean the user may only see
+        // published versions
+        if (
+          event.type === "delete" ||
+          (event.type === "unpublish" && !event.doc)
+        ) {
+          return { ...current, deleted: true, lastEvent: event };
+        }
+
+        const doc =
+          event.doc ??
+          (event.changes
+            ? applyChanges(current.doc, event.changes)
+            : current.doc);
+
+        return { doc, deleted: false, lastEvent: event };
+      });
+    });
+    // Only reset when the subscribed document changes
+  }, [client, collection, id]);
+
+  return state;
+}
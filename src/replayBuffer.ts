@@ -0,0 +1,177 @@
+import type Redis from "ioredis";
+import type { RealtimeEventPayload } from "./types";
+
+/**
+ * An event kept for replay, with the context needed to deliver it again
+ */
+export interface ReplayEntry {
+  seq: number;
+  event: RealtimeEventPayload;
+  previousDoc?: any;
+}
+
+/**
+ * Bounded per-room buffer of recent events
+ * Assigns each appended event the next sequence number of its room.
+ */
+export interface ReplayBuffer {
+  /** Store an event and return its sequence number */
+  append(room: string, entry: Omit<ReplayEntry, "seq">): Promise<number>;
+  /**
+   * Get the events after `lastSeq`
+   * Returns null if the buffer no longer reaches back that far
+   */
+  since(room: string, lastSeq: number): Promise<ReplayEntry[] | null>;
+  /** Get the sequence number of the room's latest event (0 if none) */
+  currentSeq(room: string): Promise<number>;
+}
+
+/**
+ * Check whether buffered entries cover everything after `lastSeq`
+ */
+function coversGap(
+  entries: ReplayEntry[],
+  lastSeq: number,
+  currentSeq: number,
+): boolean {
+  if (lastSeq > currentSeq) {
+    // The client saw sequence numbers this buffer never issued (e.g. the
+    // buffer was reset), so nothing it holds can be trusted
+    return false;
+  }
+
+  if (lastSeq === currentSeq) {
+    return true;
+  }
+
+  return entries.length > 0 && entries[0].seq <= lastSeq + 1;
+}
+
+/**
+ * In-memory replay buffer for single-instance deployments
+ */
+export class MemoryReplayBuffer implements ReplayBuffer {
+  private rooms = new Map<string, { seq: number; entries: ReplayEntry[] }>();
+
+  constructor(private bufferSize: number) {}
+
+  async append(room: string, entry: Omit<ReplayEntry, "seq">): Promise<number> {
+    const state = this.rooms.get(room) || { seq: 0, entries: [] };
+    state.seq += 1;
+    this.rooms.set(room, state);
+
+    // Without a buffer, only the sequence number is kept
+    if (this.bufferSize <= 0) {
+      return state.seq;
+    }
+
+    state.entries.push({ ...entry, seq: state.seq });
+
+    if (state.entries.length > this.bufferSize) {
+      state.entries.splice(0, state.entries.length - this.bufferSize);
+    }
+
+    return state.seq;
+  }
+
+  async since(room: string, lastSeq: number): Promise<ReplayEntry[] | null> {
+    const state = this.rooms.get(room) || { seq: 0, entries: [] };
+
+    if (!coversGap(state.entries, lastSeq, state.seq)) {
+      return null;
+    }
+
+    return state.entries.filter((entry) => entry.seq > lastSeq);
+  }
+
+  async currentSeq(room: string): Promise<number> {
+    return this.rooms.get(room)?.seq ?? 0;
+  }
+}
+
+/**
+ * Increment the room's sequence number and store the entry atomically, so
+ * entries from different instances are kept in sequence order
+ */
+const APPEND_SCRIPT = `
+local seq = redis.call("INCR", KEYS[1])
+redis.call("ZADD", KEYS[2], seq, seq .. ":" .. ARGV[1])
+redis.call("ZREMRANGEBYRANK", KEYS[2], 0, -(tonumber(ARGV[2]) + 1))
+redis.call("EXPIRE", KEYS[1], ARGV[3])
+redis.call("EXPIRE", KEYS[2], ARGV[3])
+return seq
+`;
+
+/**
+ * Increment the room's sequence number without storing the entry, for
+ * buffers that keep no events
+ */
+const INCR_SCRIPT = `
+local seq = redis.call("INCR", KEYS[1])
+redis.call("EXPIRE", KEYS[1], ARGV[1])
+return seq
+`;
+
+/**
+ * Redis-backed replay buffer shared by all instances
+ */
+export class RedisReplayBuffer implements ReplayBuffer {
+  constructor(
+    private redis: Redis,
+    private bufferSize: number,
+    private ttl: number,
+  ) {}
+
+  private keys(room: string): [string, string] {
+    return [`payload:replay:${room}:seq`, `payload:replay:${room}:events`];
+  }
+
+  async append(room: string, entry: Omit<ReplayEntry, "seq">): Promise<number> {
+    const [seqKey, eventsKey] = this.keys(room);
+
+    // Without a buffer, only the sequence number is kept
+    if (this.bufferSize <= 0) {
+      const seq = await this.redis.eval(INCR_SCRIPT, 1, seqKey, this.ttl);
+      return Number(seq);
+    }
+
+    const seq = await this.redis.eval(
+      APPEND_SCRIPT,
+      2,
+      seqKey,
+      eventsKey,
+      JSON.stringify(entry),
+      this.bufferSize,
+      this.ttl,
+    );
+
+    return Number(seq);
+  }
+
+  async since(room: string, lastSeq: number): Promise<ReplayEntry[] | null> {
+    const [seqKey, eventsKey] = this.keys(room);
+    const [currentSeq, members] = await Promise.all([
+      this.redis.get(seqKey),
+      this.redis.zrangebyscore(eventsKey, lastSeq + 1, "+inf"),
+    ]);
+
+    const entries: ReplayEntry[] = members.map((member) => {
+      const separator = member.indexOf(":");
+      return {
+        ...JSON.parse(member.slice(separator + 1)),
+        seq: Number(member.slice(0, separator)),
+      };
+    });
+
+    if (!coversGap(entries, lastSeq, Number(currentSeq || 0))) {
+      return null;
+    }
+
+    return entries;
+  }
+
+  async currentSeq(room: string): Promise<number> {
+    const [seqKey] = this.keys(room);
+    return Number((await this.redis.get(seqKey)) || 0);
+  }
+}
@@ -0,0 +1,98 @@
+import { toSocketError } from "./mutations";
+import type {
+  SocketAck,
+  SocketError,
+  SocketHandler,
+  SocketHandlerContext,
+  SocketHandlers,
+  StandardSchemaResult,
+} from "./types";
+
+/** Error returned when a handler throws an unexpected error */
+const HANDLER_FAILED: SocketError = {
+  code: "HANDLER_FAILED",
+  message: "Failed to handle the event",
+};
+
+/**
+ * Declare a socket handler
+ * The handler's input is typed from its schema.
+ */
+export function defineSocketHandler<TInput, TResult, TSchemaInput = TInput>(
+  definition: SocketHandler<TInput, TResult, TSchemaInput>,
+): SocketHandler<TInput, TResult, TSchemaInput> {
+  return definition;
+}
+
+/**
+ * Declare the socket handlers passed to the `handlers` option
+ * Pass `typeof handlers` to `createRealtimeClient` to type `client.call`.
+ */
+export function defineSocketHandlers<THandlers extends SocketHandlers>(
+  handlers: THandlers,
+): THandlers {
+  return handlers;
+}
+
+/**
+ * Validate a handler's input, check access and run it
+ * The result is returned as an acknowledgement; errors thrown by Payload are
+ * mapped like those of document mutations.
+ */
+export async function runSocketHandler(
+  event: string,
+  definition: SocketHandler,
+  input: unknown,
+  context: SocketHandlerContext,
+): Promise<SocketAck<any>> {
+  try {
+    let value = input;
+
+    if (definition.schema) {
+      const result = await definition.schema["~standard"].validate(input);
+      if (result.issues) {
+        return { ok: false, error: toValidationError(result) };
+      }
+      value = result.value;
+    }
+
+    if (definition.access && !(await definition.access(value, context))) {
+      return {
+        ok: false,
+        error: {
+          code: "FORBIDDEN",
+          message: "You are not allowed to perform this action",
+        },
+      };
+    }
+
+    return { ok: true, data: await definition.handler(value, context) };
+  } catch (error) {
+    const socketError = toSocketError(error, HANDLER_FAILED);
+    if (socketError === HANDLER_FAILED) {
+      context.payload.logger.error(`Error handling ${event}:`, error);
+    }
+    return { ok: false, error: socketError };
+  }
+}
+
+/**
+ * Turn Standard Schema issues into a `VALIDATION_ERROR` with one error per
+ * issue; paths use dot notation like Payload's field errors
+ */
+function toValidationError(
+  result: Extract<StandardSchemaResult<unknown>, { issues: unknown }>,
+): SocketError {
+  return {
+    code: "VALIDATION_ERROR",
+    message: "The input is invalid",
+    errors: result.issues.map((issue) => ({
+      path: (issue.path || [])
+        .map((segment) =>
+          String(typeof segment === "object" ? segment.key : segment),
+        )
+        .join("."),
+      message: issue.message,
+    })),
+  };
+}
@@ -2,13 +2,197 @@ import { Server as SocketIOServer } from "socket.io";
 import { createAdapter } from "@socket.io/redis-adapter";
 import Redis from "ioredis";
 import { Server as HTTPServer } from "http";
-import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
 import {
   RealtimeEventsPluginOptions,
   AuthenticatedSocket,
   RealtimeEventPayload,
+  CollectionEventOptions,
+  EmitEventOptions,
+  CollectionSubscription,
+  DocSubscription,
+  PresenceRequest,
+  PresenceUser,
+  ReplayRequest,
+  ReplayResult,
+  SocketAck,
+  SocketError,
+  TokenExpiry,
+  TokenRefreshRequest,
+  AuthRevocation,
+  PublishOptions,
+  DocMutationRequest,
+  MutationOperation,
+  LiveQueryRequest,
+  SubscriptionResult,
+  InboundEventError,
 } from "./types";
-import type { Payload } from "payload";
+import type { Payload, Where } from "payload";
+import { matchesWhere } from "./matchesWhere";
+import {
+  checkDraftAccess,
+  checkReadAccess,
+  getEntityConfig,
+} from "./accessControl";
+import {
+  authenticateSocket,
+  getTokenExpiry,
+  getUserRejection,
+} from "./authentication";
+import { diffDocuments, diffDocumentsAsJsonPatch } from "./diff";
+import {
+  MemoryReplayBuffer,
+  RedisReplayBuffer,
+  ReplayBuffer,
+} from "./replayBuffer";
+import {
+  getUserKey,
+  MemoryPresenceStore,
+  PresenceEntry,
+  PresenceStore,
+  RedisPresenceStore,
+  toPresenceUsers,
+} from "./presence";
+import {
+  findUnreadableWherePath,
+  hasFieldReadAccess,
+  projectDocument,
+  redactDocument,
+} from "./fieldAccess";
+import { ExpiringCache } from "./expiringCache";
+import { EventCoalescer } from "./coalescer";
+import { runMutation, validateMutation } from "./mutations";
+import { runSocketHandler } from "./socketHandlers";
+import { LiveQueryManager } from "./liveQuery";
+import {
+  getPayloadSize,
+  MemoryRateLimiter,
+  RateLimiter,
+  RedisRateLimiter,
+} from "./rateLimit";
+
+/** Server-side event sent to other instances when a user changes */
+const USER_UPDATED_EVENT = "payload:user-updated";
+
+/** Room of sockets receiving every event through `payload:event:all` */
+const ALL_ROOM = "all";
+
+/** Room of sockets receiving events in batches through `payload:events` */
+const BATCH_ROOM = "batch";
+
+/** Server-side event asking other instances to re-check their live queries */
+const LIVE_QUERY_EVENT = "payload:live-query-change";
+
+/** Server-side event asking other instances to deliver an event locally */
+const DELIVER_EVENT = "payload:deliver";
+
+/**
+ * Subscription events, limited by `rateLimit.subscriptions` instead of the
+ * default limit, since clients re-send every subscription at once after
+ * reconnecting
+ */
+const SUBSCRIPTION_EVENTS = new Set([
+  "subscribe",
+  "unsubscribe",
+  "subscribe-global",
+  "unsubscribe-global",
+  "subscribe-doc",
+  "unsubscribe-doc",
+  "subscribe-all",
+  "unsubscribe-all",
+  "join-collection",
+  "query:subscribe",
+  "query:unsubscribe",
+  "replay",
+]);
+
+/** Default window (ms) over which autosaves of a document are merged */
+const AUTOSAVE_WINDOW = 2000;
+
+/**
+ * How long (ms) tasks wait for their transaction to end before they are
+ * dropped, in case the transaction never commits or rolls back through the
+ * database adapter
+ */
+const PENDING_TRANSACTION_TTL = 5 * 60 * 1000;
+
+/** Longest delay supported by setTimeout */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Accept a single value or a list of values from a client request
+ */
+function toList<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Check whether a room is one the plugin puts sockets in for delivery
+ * Sockets join these rooms without choosing to, so presence in them would
+ * announce users to unrelated sockets.
+ */
+function isInternalRoom(room: string): boolean {
+  return (
+    room === ALL_ROOM ||
+    room === BATCH_ROOM ||
+    /^(collection|global|filter|user|ip):/.test(room)
+  );
+}
+
+/**
+ * Run `task` for every item, with at most `limit` tasks running at once
+ */
+async function forEachConcurrently<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker),
+  );
+}
+
+/**
+ * A local or remote (Redis adapter) socket that events can be delivered to
+ */
+interface EventRecipient {
+  id: string;
+  data: any;
+  rooms: Set<string>;
+  user?: AuthenticatedSocket["user"];
+  emit(event: string, ...args: any[]): unknown;
+}
+
+/**
+ * An event transformed, projected and ready to be delivered to sockets
+ */
+interface PreparedEvent {
+  /** Event as passed to emitEvent (with its sequence number) */
+  event: RealtimeEventPayload;
+  /** Event after transformEvent, used for authorization */
+  transformedEvent: RealtimeEventPayload;
+  /** Event as sent to clients (redacted unless redactPerRecipient) */
+  finalEvent: RealtimeEventPayload;
+  /** Previous document after selectFields/omitFields */
+  previousDoc: any;
+  /** Document matched against subscription filters and `Where` access */
+  matchDoc: any;
+  fields: any[];
+  collectionOptions: CollectionEventOptions;
+  /** Whether field-level access requires redacting per recipient */
+  redactPerRecipient: boolean;
+  /** Whether only users who may read drafts receive the event */
+  draftsOnly: boolean;
+  rooms: string[];
+  authorization: "check" | "none" | "deny";
+}
 
 /**
  * Socket.IO Manager for handling real-time events with Redis adapter
@@ -20,9 +204,51 @@ export class SocketIOManager {
   private subClient: Redis | null = null;
   private options: RealtimeEventsPluginOptions;
   private payload: Payload | null = null;
+  private replayBuffer: ReplayBuffer | null = null;
+  private presenceStore: PresenceStore | null = null;
+  private presenceTimer: NodeJS.Timeout | null = null;
+  /** Presence rooms of local sockets, by socket ID */
+  private presenceRooms = new Map<string, Set<string>>();
+  /** Identifies this instance in shared (Redis) state */
+  private nodeId = randomUUID();
+  /** Token expiry timers of local sockets, by socket ID */
+  private tokenExpiryTimers = new Map<string, NodeJS.Timeout>();
+  private liveQueries: LiveQueryManager | null = null;
+  private rateLimiter: RateLimiter | null = null;
+  /** Tasks waiting for their database transaction to commit, by ID */
+  private pendingTransactions = new Map<
+    string | number,
+    { tasks: Array<() => unknown>; timer: NodeJS.Timeout }
+  >();
+  /** Whether the database adapter's commits and rollbacks are observed */
+  private transactionsTracked = false;
+  /** Whether this instance only publishes events (see initEmitter) */
+  private emitterOnly = false;
+  /** Serializes emissions and deliveries so events keep their order */
+  private queue: Promise<void> = Promise.resolve();
+  /** Full user documents, by user key */
+  private userCache: ExpiringCache<any>;
+  /** Authorization decisions, by user key, entity and document version */
+  private decisionCache: ExpiringCache<boolean>;
+  private coalescer = new EventCoalescer((event, options) =>
+    this.enqueue(() => this.emitEvent(event, options)),
+  );
+  /** Pending event batches of local sockets, by socket ID */
+  private batches = new Map<
+    string,
+    {
+      socket: EventRecipient;
+      events: RealtimeEventPayload[];
+      timer: NodeJS.Timeout;
+    }
+  >();
 
   constructor(options: RealtimeEventsPluginOptions) {
     this.options = options;
+
+    const { cacheTTL = 5000 } = options.fanOut || {};
+    this.userCache = new ExpiringCache(cacheTTL);
+    this.decisionCache = new ExpiringCache(cacheTTL);
   }
 
   /**
@@ -50,6 +276,48 @@ export class SocketIOManager {
       await this.setupRedisAdapter();
     }
 
+    // Setup replay buffer (shared through Redis when available)
+    this.setupReplayBuffer();
+    this.trackTransactions();
+
+    // Keep cached users in sync across instances
+    this.io.on(USER_UPDATED_EVENT, (user: AuthenticatedSocket["user"]) =>
+      this.updateLocalUserSockets(user!),
+    );
+
+    // Deliver events emitted by other instances to local sockets
+    this.io.on(DELIVER_EVENT, (event: RealtimeEventPayload, previousDoc: any) =>
+      this.enqueue(() => this.deliverLocal(event, previousDoc)),
+    );
+
+    // Re-check local live queries after changes made on other instances
+    this.io.on(
+      LIVE_QUERY_EVENT,
+      (collection: string, id: string | number, deleted: boolean) =>
+        this.enqueue(async () =>
+          this.liveQueries?.handleChange(collection, id, deleted),
+        ),
+    );
+
+    // Setup presence tracking
+    if (this.options.presence) {
+      this.setupPresence();
+    }
+
+    // Setup live queries of local sockets
+    this.liveQueries = new LiveQueryManager(this.payload, {
+      resolveUser: (user) => this.resolveUser(user),
+      canReceive: (user, collection, doc) =>
+        this.canReceiveDoc(user, collection, doc),
+    });
+
+    // Setup limits of inbound events (shared through Redis when available)
+    if (this.options.rateLimit) {
+      this.rateLimiter = this.pubClient
+        ? new RedisRateLimiter(this.pubClient)
+        : new MemoryRateLimiter();
+    }
+
     // Setup authentication middleware
     this.setupAuthentication();
 
@@ -63,6 +331,37 @@ export class SocketIOManager {
     return this.io;
   }
 
+  /**
+   * Initialize an emitter-only instance for processes without an HTTP
+   * server, such as job workers and scripts
+   * Events are numbered and published through Redis; the instances serving
+   * sockets authorize and deliver them. Returns null without Redis.
+   */
+  async initEmitter(payloadInstance: Payload): Promise<SocketIOServer | null> {
+    this.payload = payloadInstance;
+
+    if (!this.options.redis?.url) {
+      this.payload.logger.warn(
+        "Redis URL not configured. Events of this process cannot reach Socket.IO servers.",
+      );
+      return null;
+    }
+
+    // A server without HTTP server only talks to other instances
+    this.io = new SocketIOServer();
+    this.emitterOnly = true;
+
+    await this.setupRedisAdapter();
+    this.setupReplayBuffer();
+    this.trackTransactions();
+
+    this.payload.logger.info(
+      "Socket.IO emitter initialized; events are published through Redis",
+    );
+
+    return this.io;
+  }
+
   /**
    * Setup Redis adapter for multi-instance synchronization
    */
@@ -104,52 +403,96 @@ export class SocketIOManager {
   }
 
   /**
-   * Setup authentication middleware for Socket.IO connections
+   * Setup the buffer that numbers events and keeps them for replay
+   * Without the replay option events are still numbered but not kept
+   */
+  private setupReplayBuffer(): void {
+    const { replay } = this.options;
+    const { bufferSize = 100, ttl = 3600 } =
+      typeof replay === "object" ? replay : {};
+    const size = replay ? bufferSize : 0;
+
+    this.replayBuffer = this.pubClient
+      ? new RedisReplayBuffer(this.pubClient, size, ttl)
+      : new MemoryReplayBuffer(size);
+  }
+
+  /**
+   * Setup presence tracking
+   * Sockets leave a room's presence whenever they leave the room, including
+   * when they disconnect or are removed by a custom handler.
    */
+  private setupPresence(): void {
+    const { presence } = this.options;
+    const { heartbeatInterval = 10000, staleAfter = 30000 } =
+      typeof presence === "object" ? presence : {};
+
+    const store: PresenceStore = this.pubClient
+      ? new RedisPresenceStore(this.pubClient, Math.ceil(staleAfter / 1000))
+      : new MemoryPresenceStore();
+    this.presenceStore = store;
+
+    this.io!.of("/").adapter.on("leave-room", (room: string, id: string) => {
+      this.leavePresence(room, id).catch((error) => {
+        this.payload!.logger.error(
+          `Error removing presence of ${id} in ${room}:`,
+          error,
+        );
+      });
+    });
+
+    // Keep this instance alive and clean up after instances that crashed
+    const tick = async () => {
+      try {
+        await store.heartbeat(this.nodeId);
+        const removed = await store.removeStale();
+        for (const [room, entries] of removed) {
+          await this.notifyPresenceLeft(room, entries);
+        }
+      } catch (error) {
+        this.payload!.logger.error("Error refreshing presence:", error);
+      }
+    };
+
+    void tick();
+    this.presenceTimer = setInterval(tick, heartbeatInterval);
+    this.presenceTimer.unref();
+  }
+
   /**
    * Setup Socket.IO authentication middleware
-   * Verifies JWT tokens sent from clients (e.g., next-app via socket.handshake.auth.token)
-   * Uses Payload CMS JWT verification and fetches user from database
+   * Resolves the user through Payload's auth strategies, so JWTs
+   * (socket.handshake.auth.token), API keys (socket.handshake.auth.apiKey),
+   * the `payload-token` cookie and custom strategies are all accepted.
+   * A custom `authenticate` option replaces this lookup.
    */
   private setupAuthentication(): void {
     this.io!.use(async (socket: AuthenticatedSocket, next) => {
       try {
-        const token = socket.handshake.auth.token;
+        const result = await this.resolveSocketUser(socket);
 
-        if (!token) {
-          return next(new Error("Authentication token required"));
+        if ("error" in result) {
+          return next(new Error(result.error));
         }
-        try {
-          const decoded = jwt.verify(token, this.payload!.secret) as any;
-
-          // Fetch full user document from Payload
-          const userDoc = await this.payload!.findByID({
-            collection: decoded.collection || "users",
-            id: decoded.id,
-          });
-
-          if (!userDoc) {
-            return next(new Error("User not found"));
-          }
 
-          const userInfo = {
-            id: userDoc.id,
-            email: (userDoc as any).email,
-            collection: decoded.collection || "users",
-            role: (userDoc as any).role,
-          };
+        const limitError = await this.checkConnectionLimits(
+          socket,
+          result.user,
+        );
+        if (limitError) {
+          return next(limitError);
+        }
 
-          // Store in socket.data for Redis adapter compatibility
-          // socket.data is automatically synchronized across servers via Redis
-          socket.data.user = userInfo;
+        // Store in socket.data for Redis adapter compatibility
+        // socket.data is automatically synchronized across servers via Redis
+        socket.data.user = result.user;
+        socket.data.sessionId = result.sessionId;
+        socket.data.tokenExpiresAt = getTokenExpiry(this.payload!, socket);
 
-          // Also attach to socket.user for backward compatibility
-          socket.user = userInfo;
+        // Also attach to socket.user for backward compatibility
+        socket.user = result.user;
 
-          next();
-        } catch (jwtError) {
-          return next(new Error("Invalid authentication token"));
-        }
+        next();
       } catch (error) {
         this.payload!.logger.error("Socket authentication error:", error);
         next(new Error("Authentication failed"));
@@ -158,140 +501,2487 @@ export class SocketIOManager {
   }
 
   /**
-   * Setup connection event handlers
+   * Check the user's and the IP address's connections against the
+   * `rateLimit` connection limits, across instances
+   * Returns the error the connection is rejected with, if any.
    */
-  private setupConnectionHandlers(): void {
-    this.io!.on("connection", async (socket: AuthenticatedSocket) => {
-      this.payload!.logger.info(
-        `Client connected: ${socket.id}, User: ${
-          socket.user?.email || socket.user?.id
-        }`,
-      );
+  private async checkConnectionLimits(
+    socket: AuthenticatedSocket,
+    user: NonNullable<AuthenticatedSocket["user"]>,
+  ): Promise<(Error & { data?: SocketError }) | null> {
+    const { maxConnectionsPerUser, maxConnectionsPerIp } =
+      this.options.rateLimit || {};
+    const limits = [
+      { room: this.getUserRoom(user), limit: maxConnectionsPerUser },
+      { room: this.getIpRoom(socket), limit: maxConnectionsPerIp },
+    ];
 
-      // Allow clients to subscribe to specific collections
-      socket.on("subscribe", (collections: string | string[]) => {
-        const collectionList = Array.isArray(collections)
-          ? collections
-          : [collections];
-        collectionList.forEach((collection) => {
-          socket.join(`collection:${collection}`);
-          this.payload!.logger.info(
-            `Client ${socket.id} subscribed to collection: ${collection}`,
-          );
-        });
-      });
+    for (const { room, limit } of limits) {
+      if (limit === undefined) {
+        continue;
+      }
 
-      // Allow clients to unsubscribe from collections
-      socket.on("unsubscribe", (collections: string | string[]) => {
-        const collectionList = Array.isArray(collections)
-          ? collections
-          : [collections];
-        collectionList.forEach((collection) => {
-          socket.leave(`collection:${collection}`);
-          this.payload!.logger.info(
-            `Client ${socket.id} unsubscribed from collection: ${collection}`,
-          );
+      const sockets = await this.io!.in(room).fetchSockets();
+      if (sockets.length >= limit) {
+        const message = "Too many connections";
+        // `data` is sent to the client along with the connect_error
+        return Object.assign(new Error(message), {
+          data: { code: "CONNECTION_LIMIT", message },
         });
-      });
+      }
+    }
 
-      // Allow clients to join collection rooms (alias for subscribe)
-      socket.on("join-collection", (collection: string) => {
-        const roomName = `collection:${collection}`;
-        socket.join(roomName);
-        this.payload!.logger.info(
-          `Client ${socket.id} (${socket.user?.email}) joined collection room: ${roomName}`,
-        );
-      });
+    return null;
+  }
 
-      // Handle disconnection
-      socket.on("disconnect", () => {
-        this.payload!.logger.info(
-          `Client disconnected: ${socket.id}, User: ${
-            socket.user?.email || socket.user?.id
-          }`,
-        );
-      });
+  /**
+   * Room joined by every socket connecting from an IP address
+   */
+  private getIpRoom(socket: AuthenticatedSocket): string {
+    return `ip:${socket.handshake.address}`;
+  }
 
-      if (this.options.onSocketConnection) {
-        try {
-          await this.options.onSocketConnection(
-            socket,
-            this.io!,
-            this.payload!,
-          );
-        } catch (error) {
-          this.payload!.logger.error(
-            `Error in custom socket connection handler: ${error}`,
-          );
+  /**
+   * Drop inbound events that exceed the `rateLimit` payload size or the
+   * token bucket of the event for the socket's user
+   * Limiter errors (e.g. Redis being unavailable) let the event through.
+   */
+  private async limitInboundEvent(
+    socket: AuthenticatedSocket,
+    [event, ...args]: any[],
+    next: (error?: Error) => void,
+  ): Promise<void> {
+    const {
+      default: defaultLimit = { burst: 20, perSecond: 10 },
+      subscriptions: subscriptionLimit = { burst: 200, perSecond: 20 },
+      events = {},
+      maxPayloadSize = 100000,
+      action = "error",
+    } = this.options.rateLimit || {};
+
+    let error: SocketError | null = null;
+
+    if (getPayloadSize(args) > maxPayloadSize) {
+      error = {
+        code: "PAYLOAD_TOO_LARGE",
+        message: `Event payload exceeds ${maxPayloadSize} bytes`,
+      };
+    } else {
+      const limit = Object.prototype.hasOwnProperty.call(events, event)
+        ? events[event]
+        : SUBSCRIPTION_EVENTS.has(event)
+          ? subscriptionLimit
+          : defaultLimit;
+      const sender = socket.data.user
+        ? getUserKey(socket.data.user)
+        : this.getIpRoom(socket);
+
+      try {
+        if (
+          limit &&
+          !(await this.rateLimiter!.consume(`${event}:${sender}`, limit))
+        ) {
+          error = {
+            code: "RATE_LIMITED",
+            message: `Too many ${event} events, slow down`,
+          };
         }
+      } catch (limiterError) {
+        this.payload!.logger.error("Error checking rate limit:", limiterError);
       }
-    });
+    }
+
+    if (!error) {
+      next();
+      return;
+    }
+
+    const ack = args[args.length - 1];
+    if (typeof ack === "function") {
+      ack({ ok: false, error });
+    }
+
+    const eventError: InboundEventError = { ...error, event };
+    socket.emit("payload:error", eventError);
+
+    if (action === "disconnect") {
+      this.payload!.logger.warn(
+        `Disconnecting ${socket.id} for exceeding limits of ${event}`,
+      );
+      socket.disconnect(true);
+    }
   }
 
   /**
-   * Emit a real-time event to all connected clients
+   * Resolve the user of a socket from its current handshake credentials
+   * Returns the reason the socket is rejected if it cannot be authenticated
    */
-  async emitEvent(event: RealtimeEventPayload): Promise<void> {
-    if (!this.io) {
-      this.payload!.logger.warn(
-        "Socket.IO server not initialized, cannot emit event",
-      );
-      return;
+  private async resolveSocketUser(
+    socket: AuthenticatedSocket,
+  ): Promise<
+    | { user: NonNullable<AuthenticatedSocket["user"]>; sessionId?: string }
+    | { error: string }
+  > {
+    const userDoc = this.options.authenticate
+      ? await this.options.authenticate(socket, this.payload)
+      : await authenticateSocket(this.payload!, socket);
+
+    if (!userDoc) {
+      return { error: "Authentication required" };
     }
 
-    const { authorize, shouldEmit, transformEvent } = this.options;
+    const rejection = getUserRejection(this.payload!, userDoc);
+    if (rejection) {
+      return { error: rejection };
+    }
 
-    // Check if event should be emitted
-    if (shouldEmit && !shouldEmit(event)) {
+    // Payload sets `_sid` for users authenticated with a session token
+    return { user: this.toSocketUser(userDoc), sessionId: userDoc._sid };
+  }
+
+  /**
+   * Snapshot of a user document kept in `socket.data.user`
+   */
+  private toSocketUser(userDoc: any): NonNullable<AuthenticatedSocket["user"]> {
+    return {
+      id: userDoc.id,
+      email: userDoc.email,
+      collection: userDoc.collection || "users",
+      role: userDoc.role,
+    };
+  }
+
+  /**
+   * Room joined by every socket of a user, on every instance
+   */
+  private getUserRoom(user: {
+    collection?: string;
+    id: string | number;
+  }): string {
+    return `user:${user.collection || "users"}:${user.id}`;
+  }
+
+  /**
+   * Warn a socket before its token expires, and notify (and by default
+   * disconnect) it once the token has expired
+   * Replaces any timer set for a previous token of the socket.
+   */
+  private scheduleTokenExpiry(socket: AuthenticatedSocket): void {
+    this.clearTokenExpiry(socket.id);
+
+    const expiresAt: number | null = socket.data.tokenExpiresAt;
+    if (!expiresAt) {
       return;
     }
 
-    // Transform event if transformer is provided
-    const finalEvent = transformEvent ? transformEvent(event) : event;
-
-    // Emit to collection-specific room
-    const room = `collection:${event.collection}`;
-
-    // If authorization is required, emit to each socket individually
-    if (authorize) {
-      // Get the handler for this collection
-      const collectionHandler = authorize[event.collection];
-
-      if (collectionHandler) {
-        const sockets = await this.io.in(room).fetchSockets();
-        for (const socket of sockets) {
-          const authSocket = socket as unknown as AuthenticatedSocket;
-          // Use socket.data.user for remote sockets (Redis adapter), fallback to socket.user for local
-          const user = socket.data.user || authSocket.user;
-          if (user) {
-            const isAuthorized = await collectionHandler(user, finalEvent);
-            if (isAuthorized) {
-              socket.emit("payload:event", finalEvent);
-            }
-          }
+    const { action = "disconnect", warnBefore = 60000 } =
+      this.options.tokenExpiry || {};
+    const expiry: TokenExpiry = {
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+    let warned = false;
+
+    const check = () => {
+      const remaining = expiresAt - Date.now();
+
+      if (remaining <= 0) {
+        this.tokenExpiryTimers.delete(socket.id);
+        socket.emit("auth:expired", expiry);
+        if (action === "disconnect") {
+          socket.disconnect(true);
         }
+        return;
       }
-      // If no handler for this collection, don't emit (deny by default)
-    } else {
-      // No authorization configured - emit to all sockets in the room
-      this.io.to(room).emit("payload:event", finalEvent);
-    }
 
-    // Also emit to a global room for clients listening to all events
-    this.io.emit("payload:event:all", finalEvent);
+      if (!warned && remaining <= warnBefore) {
+        warned = true;
+        socket.emit("auth:expiring", expiry);
+      }
+
+      const delay = warned ? remaining : remaining - warnBefore;
+      // setTimeout cannot wait longer than ~24.8 days; check again after that
+      const timer = setTimeout(check, Math.min(delay, MAX_TIMEOUT));
+      timer.unref();
+      this.tokenExpiryTimers.set(socket.id, timer);
+    };
+
+    check();
+  }
+
+  private clearTokenExpiry(socketId: string): void {
+    const timer = this.tokenExpiryTimers.get(socketId);
+    if (timer) {
+      clearTimeout(timer);
+      this.tokenExpiryTimers.delete(socketId);
+    }
   }
 
   /**
-   * Get Socket.IO server instance
+   * Re-authenticate a connected socket with a fresh token
+   * The token must belong to the socket's current user; `socket.data.user`
+   * is updated in place so rooms and subscriptions are kept.
    */
-  getIO(): SocketIOServer | null {
-    return this.io;
+  private async refreshSocketToken(
+    socket: AuthenticatedSocket,
+    token: string,
+  ): Promise<SocketAck<TokenExpiry>> {
+    const previousToken = socket.handshake.auth.token;
+    socket.handshake.auth.token = token;
+
+    const result = await this.resolveSocketUser(socket).catch(() => ({
+      error: "Invalid authentication token",
+    }));
+
+    if ("error" in result) {
+      socket.handshake.auth.token = previousToken;
+      return {
+        ok: false,
+        error: { code: "INVALID_TOKEN", message: result.error },
+      };
+    }
+
+    const current = socket.data.user;
+    if (
+      String(result.user.id) !== String(current.id) ||
+      result.user.collection !== current.collection
+    ) {
+      socket.handshake.auth.token = previousToken;
+      return {
+        ok: false,
+        error: {
+          code: "FORBIDDEN",
+          message: "Token belongs to a different user",
+        },
+      };
+    }
+
+    Object.assign(current, result.user);
+    socket.user = current;
+    socket.data.sessionId = result.sessionId;
+    socket.data.tokenExpiresAt = getTokenExpiry(this.payload!, socket);
+    this.scheduleTokenExpiry(socket);
+
+    return {
+      ok: true,
+      data: socket.data.tokenExpiresAt
+        ? { expiresAt: new Date(socket.data.tokenExpiresAt).toISOString() }
+        : undefined,
+    };
   }
 
   /**
-   * Cleanup and close connections
+   * Setup connection event handlers
    */
-  async close(): Promise<void> {
+  private setupConnectionHandlers(): void {
+    this.io!.on("connection", async (socket: AuthenticatedSocket) => {
+      this.payload!.logger.info(
+        `Client connected: ${socket.id}, User: ${
+          socket.user?.email || socket.user?.id
+        }`,
+      );
+
+      // Limit inbound events before any handler sees them
+      if (this.rateLimiter) {
+        socket.use((packet, next) => {
+          void this.limitInboundEvent(socket, packet, next);
+        });
+      }
+
+      // Let account changes reach every socket of the user
+      socket.join(this.getUserRoom(socket.data.user));
+
+      if (this.options.rateLimit?.maxConnectionsPerIp !== undefined) {
+        socket.join(this.getIpRoom(socket));
+      }
+
+      this.scheduleTokenExpiry(socket);
+
+      // Sockets can opt in to receiving events in batches
+      if (this.options.batch && socket.handshake.auth?.batch) {
+        socket.data.batch = true;
+        socket.join(BATCH_ROOM);
+      }
+
+      // Allow clients to send a fresh token without reconnecting
+      socket.on(
+        "auth:refresh",
+        async (
+          request: TokenRefreshRequest,
+          ack?: (response: SocketAck<TokenExpiry>) => void,
+        ) => {
+          if (!request?.token || typeof request.token !== "string") {
+            ack?.({
+              ok: false,
+              error: {
+                code: "INVALID_REQUEST",
+                message: "auth:refresh requires a token",
+              },
+            });
+            return;
+          }
+
+          try {
+            ack?.(await this.refreshSocketToken(socket, request.token));
+          } catch (error) {
+            this.payload!.logger.error("Error refreshing socket token:", error);
+            ack?.({
+              ok: false,
+              error: {
+                code: "INVALID_TOKEN",
+                message: "Failed to refresh token",
+              },
+            });
+          }
+        },
+      );
+
+      // Allow clients to subscribe to specific collections, optionally
+      // filtered with a Payload `where` query
+      socket.on(
+        "subscribe",
+        async (
+          subscriptions: CollectionSubscription | CollectionSubscription[],
+          ack?: (response: SocketAck<SubscriptionResult>) => void,
+        ) => {
+          const result = await this.subscribeCollections(
+            socket,
+            toList(subscriptions),
+          );
+          ack?.({ ok: true, data: result });
+        },
+      );
+
+      // Allow clients to unsubscribe from collections
+      socket.on(
+        "unsubscribe",
+        async (
+          collections: string | string[],
+          ack?: (response: SocketAck<SubscriptionResult>) => void,
+        ) => {
+          const result: SubscriptionResult = { accepted: [], rejected: [] };
+
+          for (const collection of toList(collections)) {
+            const error = this.validateSlug(collection, "collection");
+            if (error) {
+              result.rejected.push({ slug: String(collection ?? ""), error });
+              continue;
+            }
+
+            await socket.leave(`collection:${collection}`);
+            this.setSubscriptionFilter(socket, collection, undefined);
+            this.payload!.logger.info(
+              `Client ${socket.id} unsubscribed from collection: ${collection}`,
+            );
+            result.accepted.push(collection);
+          }
+
+          ack?.({ ok: true, data: result });
+        },
+      );
+
+      // Allow clients to subscribe to specific globals
+      socket.on(
+        "subscribe-global",
+        async (
+          globals: string | string[],
+          ack?: (response: SocketAck<SubscriptionResult>) => void,
+        ) => {
+          const result: SubscriptionResult = { accepted: [], rejected: [] };
+
+          for (const global of toList(globals)) {
+            const error =
+              this.validateSlug(global, "global") ||
+              (await this.authorizeSubscription(socket, `global:${global}`));
+            if (error) {
+              result.rejected.push({ slug: String(global ?? ""), error });
+              continue;
+            }
+
+            await socket.join(`global:${global}`);
+            this.payload!.logger.info(
+              `Client ${socket.id} subscribed to global: ${global}`,
+            );
+            result.accepted.push(global);
+          }
+
+          result.seq = await this.getCurrentSeqs(
+            result.accepted.map((global) => `global:${global}`),
+          );
+          ack?.({ ok: true, data: result });
+        },
+      );
+
+      // Allow clients to unsubscribe from globals
+      socket.on(
+        "unsubscribe-global",
+        async (
+          globals: string | string[],
+          ack?: (response: SocketAck<SubscriptionResult>) => void,
+        ) => {
+          const result: SubscriptionResult = { accepted: [], rejected: [] };
+
+          for (const global of toList(globals)) {
+            const error = this.validateSlug(global, "global");
+            if (error) {
+              result.rejected.push({ slug: String(global ?? ""), error });
+              continue;
+            }
+
+            await socket.leave(`global:${global}`);
+            this.payload!.logger.info(
+              `Client ${socket.id} unsubscribed from global: ${global}`,
+            );
+            result.accepted.push(global);
+          }
+
+          ack?.({ ok: true, data: result });
+        },
+      );
+
+      // Allow clients to subscribe to a single document
+      socket.on(
+        "subscribe-doc",
+        async (
+          subscription: DocSubscription,
+          ack?: (
+            response: SocketAck<{ seq: { [room: string]: number } }>,
+          ) => void,
+        ) => {
+          const error = await this.authorizeDocSubscription(
+            socket,
+            subscription,
+          );
+
+          if (error) {
+            ack?.({ ok: false, error });
+            return;
+          }
+
+          const { collection, id } = subscription;
+          await socket.join(this.getDocRoom(collection, id));
+          this.payload!.logger.info(
+            `Client ${socket.id} subscribed to document: ${collection}/${id}`,
+          );
+          // Document events are numbered in their collection's room
+          ack?.({
+            ok: true,
+            data: {
+              seq: await this.getCurrentSeqs([`collection:${collection}`]),
+            },
+          });
+        },
+      );
+
+      // Allow clients to unsubscribe from a single document
+      socket.on(
+        "unsubscribe-doc",
+        async (
+          subscription: DocSubscription,
+          ack?: (response: SocketAck) => void,
+        ) => {
+          const { collection, id } = subscription || {};
+          if (!collection || id === undefined || id === null) {
+            ack?.({
+              ok: false,
+              error: {
+                code: "INVALID_REQUEST",
+                message: "Collection and document ID are required",
+              },
+            });
+            return;
+          }
+
+          await socket.leave(this.getDocRoom(collection, id));
+          this.payload!.logger.info(
+            `Client ${socket.id} unsubscribed from document: ${collection}/${id}`,
+          );
+          ack?.({ ok: true });
+        },
+      );
+
+      // Allow reconnecting clients to receive the events they missed
+      socket.on(
+        "replay",
+        async (
+          lastSeen: ReplayRequest,
+          ack?: (response: SocketAck<ReplayResult>) => void,
+        ) => {
+          if (!this.options.replay) {
+            ack?.({
+              ok: false,
+              error: {
+                code: "REPLAY_DISABLED",
+                message: "Event replay is not enabled",
+              },
+            });
+            return;
+          }
+
+          try {
+            const result = await this.replayMissedEvents(socket, lastSeen);
+            ack?.({ ok: true, data: result });
+          } catch (error) {
+            this.payload!.logger.error(
+              `Error replaying events for ${socket.id}:`,
+              error,
+            );
+            ack?.({
+              ok: false,
+              error: {
+                code: "REPLAY_FAILED",
+                message: "Failed to replay missed events",
+              },
+            });
+          }
+        },
+      );
+
+      // Allow clients to receive every event they are authorized for
+      socket.on(
+        "subscribe-all",
+        async (
+          ack?: (
+            response: SocketAck<{ seq: { [room: string]: number } }>,
+          ) => void,
+        ) => {
+          const error = await this.authorizeSubscription(socket, ALL_ROOM);
+          if (error) {
+            ack?.({ ok: false, error });
+            return;
+          }
+
+          await socket.join(ALL_ROOM);
+          this.payload!.logger.info(
+            `Client ${socket.id} subscribed to all events`,
+          );
+          // The feed carries the events of every collection and global room
+          const { includeCollections = [], includeGlobals = [] } = this.options;
+          ack?.({
+            ok: true,
+            data: {
+              seq: await this.getCurrentSeqs([
+                ...includeCollections.map((slug) => `collection:${slug}`),
+                ...includeGlobals.map((slug) => `global:${slug}`),
+              ]),
+            },
+          });
+        },
+      );
+
+      socket.on(
+        "unsubscribe-all",
+        async (ack?: (response: SocketAck) => void) => {
+          await socket.leave(ALL_ROOM);
+          ack?.({ ok: true });
+        },
+      );
+
+      // Allow clients to join collection rooms (alias for subscribe)
+      socket.on(
+        "join-collection",
+        async (
+          collection: string,
+          ack?: (response: SocketAck<SubscriptionResult>) => void,
+        ) => {
+          const result = await this.subscribeCollections(socket, [collection]);
+          ack?.({ ok: true, data: result });
+        },
+      );
+
+      // Allow clients to announce their presence in rooms they have joined
+      if (this.presenceStore) {
+        socket.on(
+          "presence:join",
+          async (
+            request: PresenceRequest,
+            ack?: (response: SocketAck<PresenceUser[]>) => void,
+          ) => {
+            if (
+              typeof request?.room === "string" &&
+              isInternalRoom(request.room)
+            ) {
+              ack?.({
+                ok: false,
+                error: {
+                  code: "FORBIDDEN",
+                  message: "Presence is not available in this room",
+                },
+              });
+              return;
+            }
+
+            try {
+              const users = await this.joinPresence(socket, request);
+              ack?.(
+                users
+                  ? { ok: true, data: users }
+                  : {
+                      ok: false,
+                      error: {
+                        code: "NOT_IN_ROOM",
+                        message: "Join the room before announcing presence",
+                      },
+                    },
+              );
+            } catch (error) {
+              this.payload!.logger.error("Error joining presence:", error);
+              ack?.({
+                ok: false,
+                error: {
+                  code: "PRESENCE_FAILED",
+                  message: "Failed to join presence",
+                },
+              });
+            }
+          },
+        );
+
+        socket.on(
+          "presence:update",
+          async (
+            request: PresenceRequest,
+            ack?: (response: SocketAck) => void,
+          ) => {
+            try {
+              const updated = await this.updatePresence(socket, request);
+              ack?.(
+                updated
+                  ? { ok: true }
+                  : {
+                      ok: false,
+                      error: {
+                        code: "NOT_PRESENT",
+                        message: "Join the room's presence before updating it",
+                      },
+                    },
+              );
+            } catch (error) {
+              this.payload!.logger.error("Error updating presence:", error);
+              ack?.({
+                ok: false,
+                error: {
+                  code: "PRESENCE_FAILED",
+                  message: "Failed to update presence",
+                },
+              });
+            }
+          },
+        );
+
+        socket.on(
+          "presence:leave",
+          async (
+            request: PresenceRequest,
+            ack?: (response: SocketAck) => void,
+          ) => {
+            try {
+              await this.leavePresence(request?.room, socket.id);
+              ack?.({ ok: true });
+            } catch (error) {
+              this.payload!.logger.error("Error leaving presence:", error);
+              ack?.({
+                ok: false,
+                error: {
+                  code: "PRESENCE_FAILED",
+                  message: "Failed to leave presence",
+                },
+              });
+            }
+          },
+        );
+      }
+
+      // Allow clients to keep the result set of a query in sync
+      socket.on(
+        "query:subscribe",
+        async (
+          request: LiveQueryRequest,
+          ack?: (response: SocketAck<{ docs: any[] }>) => void,
+        ) => {
+          const collection = request?.collection;
+          // Replacing a query with the same ID does not add a subscription
+          const subscriptionError =
+            this.validateSlug(collection, "collection") ||
+            this.checkSubscriptionLimit(
+              socket,
+              !this.liveQueries!.has(socket.id, request.id),
+            ) ||
+            (await this.authorizeSubscription(socket, null, collection));
+
+          if (subscriptionError) {
+            ack?.({ ok: false, error: subscriptionError });
+            return;
+          }
+
+          if (this.getAuthorizationMode(collection) === "deny") {
+            ack?.({
+              ok: false,
+              error: {
+                code: "FORBIDDEN",
+                message: "You are not allowed to query this collection",
+              },
+            });
+            return;
+          }
+
+          try {
+            ack?.(await this.liveQueries!.subscribe(socket, request));
+          } catch (error: any) {
+            if (error?.status === 401 || error?.status === 403) {
+              ack?.({
+                ok: false,
+                error: {
+                  code: "FORBIDDEN",
+                  message: "You are not allowed to query this collection",
+                },
+              });
+              return;
+            }
+
+            this.payload!.logger.error(
+              "Error subscribing to live query:",
+              error,
+            );
+            ack?.({
+              ok: false,
+              error: {
+                code: "QUERY_FAILED",
+                message: "Failed to run the query",
+              },
+            });
+          }
+        },
+      );
+
+      socket.on("query:unsubscribe", (request: { id: string }) => {
+        if (request?.id) {
+          this.liveQueries!.unsubscribe(socket.id, request.id);
+        }
+      });
+
+      // Allow clients to create, update and delete documents of allowlisted
+      // collections as their own user
+      if (this.options.mutations) {
+        const operations: MutationOperation[] = ["create", "update", "delete"];
+        operations.forEach((operation) => {
+          socket.on(
+            `doc:${operation}`,
+            async (
+              request: DocMutationRequest,
+              ack?: (response: SocketAck<any>) => void,
+            ) => {
+              try {
+                const error = validateMutation(
+                  this.options.mutations!,
+                  operation,
+                  request,
+                );
+                if (error) {
+                  ack?.({ ok: false, error });
+                  return;
+                }
+
+                const user = await this.resolveUser(socket.data.user);
+                ack?.(
+                  await runMutation(this.payload!, user, operation, request),
+                );
+              } catch (error) {
+                this.payload!.logger.error(
+                  `Error handling doc:${operation}:`,
+                  error,
+                );
+                ack?.({
+                  ok: false,
+                  error: {
+                    code: "MUTATION_FAILED",
+                    message: "Failed to run the operation",
+                  },
+                });
+              }
+            },
+          );
+        });
+      }
+
+      // Handle disconnection
+      socket.on("disconnect", () => {
+        this.clearTokenExpiry(socket.id);
+        this.liveQueries?.removeSocket(socket.id);
+        const batch = this.batches.get(socket.id);
+        if (batch) {
+          clearTimeout(batch.timer);
+          this.batches.delete(socket.id);
+        }
+        this.payload!.logger.info(
+          `Client disconnected: ${socket.id}, User: ${
+            socket.user?.email || socket.user?.id
+          }`,
+        );
+      });
+
+      // Register the declared handlers, answering through the ack
+      Object.entries(this.options.handlers || {}).forEach(
+        ([event, definition]) => {
+          socket.on(
+            event,
+            async (
+              input: unknown,
+              ack?: (response: SocketAck<any>) => void,
+            ) => {
+              // Events sent without input still pass their ack last
+              if (typeof input === "function" && !ack) {
+                ack = input as (response: SocketAck<any>) => void;
+                input = undefined;
+              }
+
+              try {
+                const user = await this.resolveUser(socket.data.user);
+                ack?.(
+                  await runSocketHandler(event, definition, input, {
+                    socket,
+                    user,
+                    io: this.io,
+                    payload: this.payload,
+                  }),
+                );
+              } catch (error) {
+                this.payload!.logger.error(`Error handling ${event}:`, error);
+                ack?.({
+                  ok: false,
+                  error: {
+                    code: "HANDLER_FAILED",
+                    message: "Failed to handle the event",
+                  },
+                });
+              }
+            },
+          );
+        },
+      );
+
+      if (this.options.onSocketConnection) {
+        try {
+          await this.options.onSocketConnection(
+            socket,
+            this.io!,
+            this.payload!,
+          );
+        } catch (error) {
+          this.payload!.logger.error(
+            `Error in custom socket connection handler: ${error}`,
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Subscribe a socket to collections
+   * Each entry is checked on its own, so valid entries are subscribed even
+   * when others are rejected.
+   */
+  private async subscribeCollections(
+    socket: AuthenticatedSocket,
+    subscriptions: CollectionSubscription[],
+  ): Promise<SubscriptionResult> {
+    const result: SubscriptionResult = { accepted: [], rejected: [] };
+
+    for (const subscription of subscriptions) {
+      const { collection, where } =
+        typeof subscription === "string"
+          ? { collection: subscription, where: undefined }
+          : subscription || { collection: undefined, where: undefined };
+
+      const room = `collection:${collection}`;
+      const error =
+        this.validateSlug(collection, "collection") ||
+        (await this.authorizeSubscription(socket, room, collection)) ||
+        (await this.validateFilter(socket, collection!, where));
+
+      if (error) {
+        result.rejected.push({ slug: String(collection ?? ""), error });
+        continue;
+      }
+
+      await socket.join(room);
+      this.setSubscriptionFilter(socket, collection!, where);
+      this.payload!.logger.info(
+        `Client ${socket.id} subscribed to collection: ${collection}${
+          where ? " (filtered)" : ""
+        }`,
+      );
+      result.accepted.push(collection!);
+    }
+
+    result.seq = await this.getCurrentSeqs(
+      result.accepted.map((collection) => `collection:${collection}`),
+    );
+    return result;
+  }
+
+  /**
+   * Get the current sequence numbers of rooms a socket has just joined
+   * Read after joining, so every later event reaches the socket live
+   */
+  private async getCurrentSeqs(
+    rooms: string[],
+  ): Promise<{ [room: string]: number }> {
+    const seqs: { [room: string]: number } = {};
+
+    try {
+      for (const room of rooms) {
+        seqs[room] = await this.replayBuffer!.currentSeq(room);
+      }
+    } catch (error) {
+      this.payload!.logger.error("Error reading sequence numbers:", error);
+    }
+
+    return seqs;
+  }
+
+  /**
+   * Check that a subscription filter only queries fields the socket's user
+   * may read
+   * Filters decide which events arrive, so a filter on a hidden or
+   * access-restricted field would reveal its value one guess at a time.
+   */
+  private async validateFilter(
+    socket: AuthenticatedSocket,
+    collection: string,
+    where: Where | undefined,
+  ): Promise<SocketError | null> {
+    if (!where) {
+      return null;
+    }
+
+    try {
+      const path = await findUnreadableWherePath({
+        payload: this.payload!,
+        fields: getEntityConfig(this.payload!, { collection })?.fields || [],
+        where,
+        user: socket.data.user
+          ? await this.resolveUser(socket.data.user)
+          : null,
+      });
+
+      if (!path) {
+        return null;
+      }
+
+      return {
+        code: "FORBIDDEN",
+        message: `The following path cannot be queried: ${path}`,
+      };
+    } catch (error) {
+      this.payload!.logger.error(
+        `Error validating subscription filter for ${collection}:`,
+        error,
+      );
+      return {
+        code: "FORBIDDEN",
+        message: `You are not allowed to subscribe to collection: ${collection}`,
+      };
+    }
+  }
+
+  /**
+   * Check that a subscription names a collection (or global) with real-time
+   * events enabled
+   */
+  private validateSlug(
+    slug: unknown,
+    kind: "collection" | "global",
+  ): SocketError | null {
+    if (typeof slug !== "string" || !slug) {
+      return {
+        code: "INVALID_REQUEST",
+        message: `A ${kind} slug is required`,
+      };
+    }
+
+    const included =
+      kind === "collection"
+        ? this.options.includeCollections
+        : this.options.includeGlobals;
+
+    if (!included?.includes(slug)) {
+      return {
+        code: kind === "collection" ? "UNKNOWN_COLLECTION" : "UNKNOWN_GLOBAL",
+        message: `Real-time events are not enabled for ${kind}: ${slug}`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check a new subscription against the socket's subscription limit and,
+   * for collections, the `canSubscribe` hook
+   * Rooms the socket is already in do not count against the limit; without a
+   * room (live queries, whose limit is checked by the caller) only
+   * `canSubscribe` is checked.
+   */
+  private async authorizeSubscription(
+    socket: AuthenticatedSocket,
+    room: string | null,
+    collection?: string,
+  ): Promise<SocketError | null> {
+    const { canSubscribe } = this.options;
+
+    const limitError = this.checkSubscriptionLimit(
+      socket,
+      room !== null && !socket.rooms.has(room),
+    );
+    if (limitError) {
+      return limitError;
+    }
+
+    if (!collection || !canSubscribe) {
+      return null;
+    }
+
+    try {
+      const user = socket.data.user
+        ? await this.resolveUser(socket.data.user)
+        : null;
+
+      if (await canSubscribe(user, collection)) {
+        return null;
+      }
+    } catch (error) {
+      this.payload!.logger.error(
+        `Error checking subscription to ${collection}:`,
+        error,
+      );
+    }
+
+    return {
+      code: "FORBIDDEN",
+      message: `You are not allowed to subscribe to collection: ${collection}`,
+    };
+  }
+
+  /**
+   * Check maxSubscriptionsPerSocket before a socket adds a subscription
+   * Collection, global and document rooms count, as do live queries and the
+   * `all` feed.
+   */
+  private checkSubscriptionLimit(
+    socket: AuthenticatedSocket,
+    adds: boolean,
+  ): SocketError | null {
+    const { maxSubscriptionsPerSocket } = this.options;
+
+    if (!adds || maxSubscriptionsPerSocket === undefined) {
+      return null;
+    }
+
+    const count =
+      Array.from(socket.rooms).filter(
+        (name) => name === ALL_ROOM || /^(collection|global|doc):/.test(name),
+      ).length + (this.liveQueries?.count(socket.id) ?? 0);
+
+    return count >= maxSubscriptionsPerSocket
+      ? {
+          code: "SUBSCRIPTION_LIMIT",
+          message: `A socket can hold at most ${maxSubscriptionsPerSocket} subscriptions`,
+        }
+      : null;
+  }
+
+  /**
+   * Get the room name for subscribers of a single document
+   */
+  private getDocRoom(collection: string, id: string | number): string {
+    return `doc:${collection}:${id}`;
+  }
+
+  /**
+   * Get the room name for sockets with a filtered subscription to a collection
+   * These sockets are also in the collection room but are excluded from
+   * broadcasts so that their filter can be checked individually
+   */
+  private getFilterRoom(collection: string): string {
+    return `filter:${collection}`;
+  }
+
+  /**
+   * Store (or clear) the `where` filter of a socket's collection subscription
+   * Filters live in socket.data so they are visible to remote servers
+   */
+  private setSubscriptionFilter(
+    socket: AuthenticatedSocket,
+    collection: string,
+    where: Where | undefined,
+  ): void {
+    const filters = { ...(socket.data.filters || {}) };
+    const filterRoom = this.getFilterRoom(collection);
+
+    if (where && typeof where === "object") {
+      filters[collection] = where;
+      socket.join(filterRoom);
+    } else {
+      delete filters[collection];
+      socket.leave(filterRoom);
+    }
+
+    socket.data.filters = filters;
+  }
+
+  /**
+   * Check whether an event matches a socket's subscription filter
+   * Document subscribers always receive events for their document
+   */
+  private matchesSubscription(
+    socket: { data: any; rooms: Set<string> },
+    event: RealtimeEventPayload,
+    doc: any,
+  ): boolean {
+    const where: Where | undefined =
+      event.collection && socket.data.filters?.[event.collection];
+
+    if (!where) {
+      return true;
+    }
+
+    if (
+      event.id !== undefined &&
+      socket.rooms.has(this.getDocRoom(event.collection!, event.id))
+    ) {
+      return true;
+    }
+
+    return matchesWhere(doc, where);
+  }
+
+  /**
+   * Check whether a socket may subscribe to a single document
+   * The socket's user is authorized like an event recipient, using a synthetic
+   * update event carrying the current document. Returns an error if denied.
+   */
+  private async authorizeDocSubscription(
+    socket: AuthenticatedSocket,
+    subscription: DocSubscription,
+  ): Promise<SocketError | null> {
+    const { collection, id } = subscription || {};
+
+    if (!collection || id === undefined || id === null) {
+      return {
+        code: "INVALID_REQUEST",
+        message: "Collection and document ID are required",
+      };
+    }
+
+    const subscriptionError =
+      this.validateSlug(collection, "collection") ||
+      (await this.authorizeSubscription(
+        socket,
+        this.getDocRoom(collection, id),
+        collection,
+      ));
+    if (subscriptionError) {
+      return subscriptionError;
+    }
+
+    const user = socket.data.user || socket.user;
+    const authorization = this.getAuthorizationMode(collection);
+    if (authorization === "none") {
+      return null;
+    }
+
+    if (authorization === "deny" || !user) {
+      return {
+        code: "FORBIDDEN",
+        message: "You are not allowed to subscribe to this document",
+      };
+    }
+
+    let doc: any;
+    try {
+      doc = await this.payload!.findByID({
+        collection,
+        id,
+        depth: 0,
+      });
+    } catch (error) {
+      return {
+        code: "NOT_FOUND",
+        message: "Document not found",
+      };
+    }
+
+    const isAuthorized = await this.authorizeRecipient(
+      user,
+      {
+        type: "update",
+        collection,
+        id,
+        doc,
+        timestamp: new Date().toISOString(),
+      },
+      doc,
+    );
+
+    return isAuthorized
+      ? null
+      : {
+          code: "FORBIDDEN",
+          message: "You are not allowed to subscribe to this document",
+        };
+  }
+
+  /**
+   * Determine how recipients of a collection's (or global's) events are
+   * authorized:
+   * - "check": run the authorize handler or Payload read access per recipient
+   * - "none": no authorization configured, broadcast to the room
+   * - "deny": authorize is configured without a handler for this slug
+   */
+  private getAuthorizationMode(slug: string): "check" | "none" | "deny" {
+    const { authorize, useAccessControl } = this.options;
+
+    if (authorize?.[slug] || useAccessControl) {
+      return "check";
+    }
+
+    return authorize ? "deny" : "none";
+  }
+
+  /**
+   * Check whether a user may receive an event
+   * Uses the authorize handler for the slug if there is one, otherwise the
+   * collection's (or global's) `access.read` when useAccessControl is enabled
+   */
+  private async authorizeRecipient(
+    user: any,
+    event: RealtimeEventPayload,
+    doc: any,
+  ): Promise<boolean> {
+    const { authorize, useAccessControl } = this.options;
+    const slug = (event.global || event.collection)!;
+    const handler = authorize?.[slug];
+
+    try {
+      if (handler) {
+        return await handler(user, event);
+      }
+
+      if (useAccessControl) {
+        return await checkReadAccess({
+          payload: this.payload!,
+          user: await this.resolveUser(user),
+          collection: event.collection,
+          global: event.global,
+          id: event.id,
+          doc,
+        });
+      }
+    } catch (error) {
+      this.payload!.logger.error(
+        `Error authorizing ${event.type} event for ${slug}:`,
+        error,
+      );
+      return false;
+    }
+
+    return !authorize;
+  }
+
+  /**
+   * Check whether a user may receive events of a document, as used for live
+   * queries on top of the collection's read access
+   */
+  private async canReceiveDoc(
+    user: any,
+    collection: string,
+    doc: any,
+  ): Promise<boolean> {
+    const authorization = this.getAuthorizationMode(collection);
+
+    if (authorization !== "check") {
+      return authorization === "none";
+    }
+
+    return this.authorizeRecipientCached(
+      user,
+      {
+        type: "update",
+        collection,
+        id: doc.id,
+        doc,
+        timestamp: new Date().toISOString(),
+      },
+      doc,
+    );
+  }
+
+  /**
+   * Check whether a user may receive an event through `payload:event:all`
+   */
+  private async authorizeAllRecipient(
+    user: any,
+    event: RealtimeEventPayload,
+  ): Promise<boolean> {
+    try {
+      return await this.options.authorizeAll!(user, event);
+    } catch (error) {
+      this.payload!.logger.error(
+        `Error authorizing ${event.type} event for all events feed:`,
+        error,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a user may receive an event, reusing recent decisions
+   * Decisions are cached per user, event type and document version
+   * (`updatedAt`), so a changed document is always authorized again.
+   */
+  private authorizeRecipientCached(
+    user: any,
+    event: RealtimeEventPayload,
+    doc: any,
+    useAuthorizeAll = false,
+  ): Promise<boolean> {
+    const key = [
+      getUserKey(user),
+      useAuthorizeAll ? "*" : "",
+      event.global || event.collection,
+      event.type,
+      event.id,
+      doc?.updatedAt ?? "",
+    ].join("|");
+
+    return this.decisionCache.get(key, () =>
+      useAuthorizeAll
+        ? this.authorizeAllRecipient(user, event)
+        : this.authorizeRecipient(user, event, doc),
+    );
+  }
+
+  /**
+   * Check whether a user may read the drafts of an event's document, reusing
+   * recent decisions like authorizeRecipientCached
+   */
+  private canReadDrafts(
+    user: any,
+    event: RealtimeEventPayload,
+    doc: any,
+  ): Promise<boolean> {
+    const key = [
+      getUserKey(user),
+      "drafts",
+      event.collection,
+      event.id,
+      doc?.updatedAt ?? "",
+    ].join("|");
+
+    return this.decisionCache.get(key, async () => {
+      try {
+        return await checkDraftAccess({
+          payload: this.payload!,
+          user: await this.resolveUser(user),
+          collection: event.collection!,
+          id: event.id,
+          doc,
+        });
+      } catch (error) {
+        this.payload!.logger.error(
+          `Error checking draft access for ${event.collection}:`,
+          error,
+        );
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Fetch the full user document for a socket user
+   * Access functions usually need more than the id/email/role snapshot
+   * stored on the socket. Documents are cached for a short time.
+   */
+  private resolveUser(user: {
+    id: string | number;
+    collection?: string;
+  }): Promise<any> {
+    const collection = user.collection || "users";
+
+    return this.userCache.get(getUserKey({ ...user, collection }), () =>
+      this.payload!.findByID({
+        collection,
+        id: user.id,
+        depth: 0,
+      }).then((userDoc: any) => ({ ...userDoc, collection })),
+    );
+  }
+
+  /**
+   * Redact an event's document for a user (or for everyone when user is null)
+   * and add the changes compared to the previous document when the
+   * collection's `changes` option is set. Both documents are redacted the
+   * same way so changes never reveal fields the document itself would hide.
+   */
+  private async redactEvent(
+    event: RealtimeEventPayload,
+    previousDoc: any,
+    fields: any[],
+    collectionOptions: CollectionEventOptions,
+    user: any,
+  ): Promise<RealtimeEventPayload> {
+    const redact = (doc: any) =>
+      redactDocument({
+        payload: this.payload!,
+        fields,
+        doc,
+        user,
+        id: event.id,
+      });
+
+    const doc = await redact(event.doc);
+    const { changes, includeDoc = true } = collectionOptions;
+
+    if (!changes || event.type !== "update" || !previousDoc || !doc) {
+      return { ...event, doc };
+    }
+
+    const redactedPreviousDoc = await redact(previousDoc);
+
+    return {
+      ...event,
+      doc: includeDoc ? doc : undefined,
+      changes:
+        changes === "json-patch"
+          ? diffDocumentsAsJsonPatch(redactedPreviousDoc, doc)
+          : diffDocuments(redactedPreviousDoc, doc),
+    };
+  }
+
+  /**
+   * Get the room an event is broadcast to
+   * Sequence numbers and replay buffers are kept per room
+   */
+  private getEventRoom(event: { collection?: string; global?: string }) {
+    return event.global
+      ? `global:${event.global}`
+      : `collection:${event.collection}`;
+  }
+
+  /**
+   * Emit a real-time event to all connected clients
+   */
+  async emitEvent(
+    event: RealtimeEventPayload,
+    { previousDoc }: EmitEventOptions = {},
+  ): Promise<void> {
+    if (!this.io) {
+      this.payload!.logger.warn(
+        "Socket.IO server not initialized, cannot emit event. Call initSocketIO() or initSocketEmitter().",
+      );
+      return;
+    }
+
+    const { shouldEmit } = this.options;
+
+    // Check if event should be emitted
+    if (shouldEmit && !shouldEmit(event)) {
+      return;
+    }
+
+    // Number the event within its room and keep it for replay
+    const seq = await this.replayBuffer!.append(this.getEventRoom(event), {
+      event,
+      previousDoc,
+    });
+
+    const numberedEvent = { ...event, seq };
+
+    // Every instance authorizes and delivers to its own sockets
+    if (this.pubClient) {
+      this.io.serverSideEmit(DELIVER_EVENT, numberedEvent, previousDoc);
+    }
+    if (!this.emitterOnly) {
+      await this.deliverLocal(numberedEvent, previousDoc);
+    }
+  }
+
+  /**
+   * Re-check the live queries of a collection on every instance after one of
+   * its documents was created, updated or deleted
+   * Live queries follow every change, so this runs whatever `shouldEmit`,
+   * `operations` or coalescing let through as events.
+   */
+  refreshLiveQueries(
+    collection: string,
+    id: string | number,
+    deleted: boolean,
+  ): void {
+    if (!this.io) {
+      return;
+    }
+
+    if (this.pubClient) {
+      this.io.serverSideEmit(LIVE_QUERY_EVENT, collection, id, deleted);
+    }
+    if (!this.emitterOnly) {
+      this.enqueue(async () =>
+        this.liveQueries?.handleChange(collection, id, deleted),
+      );
+    }
+  }
+
+  /**
+   * Run a task once the transaction of a request commits
+   * Outside a transaction (or with a database adapter without transactions)
+   * the task runs right away. Tasks of rolled back transactions are dropped,
+   * as are tasks of transactions that do not end within
+   * PENDING_TRANSACTION_TTL.
+   */
+  async afterCommit(req: any, task: () => unknown): Promise<void> {
+    const transactionID = await req?.transactionID;
+
+    if (!transactionID || !this.transactionsTracked) {
+      await task();
+      return;
+    }
+
+    const pending = this.pendingTransactions.get(transactionID);
+    if (pending) {
+      pending.tasks.push(task);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const expired = this.pendingTransactions.get(transactionID);
+      this.pendingTransactions.delete(transactionID);
+      this.payload!.logger.warn(
+        `Dropped ${expired?.tasks.length ?? 0} real-time task(s) of transaction ${transactionID}, which did not end within ${PENDING_TRANSACTION_TTL}ms`,
+      );
+    }, PENDING_TRANSACTION_TTL);
+    timer.unref();
+    this.pendingTransactions.set(transactionID, { tasks: [task], timer });
+  }
+
+  /**
+   * Observe the database adapter's commits and rollbacks, so work deferred
+   * with afterCommit runs (or is dropped) when its transaction ends
+   */
+  private trackTransactions(): void {
+    const db = this.payload?.db;
+
+    if (
+      this.transactionsTracked ||
+      typeof db?.commitTransaction !== "function" ||
+      typeof db?.rollbackTransaction !== "function"
+    ) {
+      return;
+    }
+
+    const commitTransaction = db.commitTransaction.bind(db);
+    const rollbackTransaction = db.rollbackTransaction.bind(db);
+
+    db.commitTransaction = async (id: any) => {
+      try {
+        const result = await commitTransaction(id);
+        this.settleTransaction(await id, true);
+        return result;
+      } catch (error) {
+        this.settleTransaction(await id, false);
+        throw error;
+      }
+    };
+
+    db.rollbackTransaction = async (id: any) => {
+      try {
+        return await rollbackTransaction(id);
+      } finally {
+        this.settleTransaction(await id, false);
+      }
+    };
+
+    this.transactionsTracked = true;
+  }
+
+  /**
+   * Run (on commit) or drop (on rollback) the tasks of a transaction
+   */
+  private settleTransaction(
+    transactionID: string | number,
+    committed: boolean,
+  ): void {
+    const pending = this.pendingTransactions.get(transactionID);
+    this.pendingTransactions.delete(transactionID);
+
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    if (!committed) {
+      return;
+    }
+
+    pending.tasks.forEach((task) => {
+      Promise.resolve()
+        .then(task)
+        .catch((error) => {
+          this.payload!.logger.error(
+            "Error running task after transaction commit:",
+            error,
+          );
+        });
+    });
+  }
+
+  /**
+   * Queue an event to be emitted after the events queued before it
+   * Returns immediately, so hooks are not held up by the fan-out.
+   */
+  queueEvent(
+    event: RealtimeEventPayload,
+    options: EmitEventOptions = {},
+  ): void {
+    const collectionOptions: CollectionEventOptions =
+      (event.collection &&
+        this.options.collectionOptions?.[event.collection]) ||
+      {};
+    let coalesce = collectionOptions.coalesce;
+
+    // Autosaves are merged over their own window unless configured otherwise
+    if (event.autosave) {
+      const { autosave = AUTOSAVE_WINDOW } = collectionOptions.drafts || {};
+      if (autosave === "skip") {
+        return;
+      }
+      if (autosave !== "emit") {
+        coalesce = autosave;
+      }
+    }
+
+    if (coalesce && (event.id !== undefined || event.global)) {
+      this.coalescer.add(
+        event,
+        options,
+        typeof coalesce === "number" ? { window: coalesce } : coalesce,
+      );
+      return;
+    }
+
+    // Pending autosaves of the document go out before the event
+    this.coalescer.flushDocument(event);
+    this.enqueue(() => this.emitEvent(event, options));
+  }
+
+  private enqueue(task: () => Promise<unknown>): void {
+    this.queue = this.queue.then(task).then(
+      () => undefined,
+      (error) => {
+        this.payload?.logger.error("Error emitting real-time event:", error);
+      },
+    );
+  }
+
+  /**
+   * Deliver an event to the sockets connected to this instance, including
+   * those subscribed to all events
+   */
+  private async deliverLocal(
+    event: RealtimeEventPayload,
+    previousDoc: any,
+  ): Promise<void> {
+    const prepared = await this.prepareEvent(event, previousDoc);
+    const { rooms, authorization, redactPerRecipient, finalEvent } = prepared;
+    const local = this.io!.local;
+
+    // If authorization, redaction or a draft access check is required,
+    // emit per user
+    if (
+      authorization === "check" ||
+      (authorization === "none" && (redactPerRecipient || prepared.draftsOnly))
+    ) {
+      const sockets = await local.in(rooms).fetchSockets();
+      await this.deliverToSockets(prepared, sockets);
+    } else if (authorization === "none") {
+      // No authorization configured - emit to all sockets in the rooms
+      // Sockets with a filtered subscription or batching are handled
+      // individually
+      const individualRooms = event.collection
+        ? [this.getFilterRoom(event.collection), BATCH_ROOM]
+        : [BATCH_ROOM];
+      local.to(rooms).except(individualRooms).emit("payload:event", finalEvent);
+
+      const sockets = await local.in(individualRooms).fetchSockets();
+      for (const socket of sockets) {
+        if (
+          rooms.some((room) => socket.rooms.has(room)) &&
+          this.matchesSubscription(socket, event, prepared.matchDoc)
+        ) {
+          this.sendEvent(socket, finalEvent);
+        }
+      }
+    }
+    // If no handler for this collection, don't emit (deny by default)
+
+    // Sockets subscribed to all events go through the same authorization,
+    // or through authorizeAll when it is configured
+    if (
+      authorization === "none" &&
+      !redactPerRecipient &&
+      !prepared.draftsOnly &&
+      !this.options.authorizeAll
+    ) {
+      local.to(ALL_ROOM).emit("payload:event:all", finalEvent);
+    } else {
+      const sockets = await local.in(ALL_ROOM).fetchSockets();
+      await this.deliverToSockets(prepared, sockets, true);
+    }
+  }
+
+  /**
+   * Transform, project and (where possible) redact an event once, collecting
+   * everything needed to deliver it to individual sockets
+   */
+  private async prepareEvent(
+    event: RealtimeEventPayload,
+    previousDoc: any,
+  ): Promise<PreparedEvent> {
+    const { transformEvent } = this.options;
+
+    // Transform event if transformer is provided
+    // Authorization handlers see the transformed event before redaction
+    const transformedEvent = transformEvent
+      ? { ...transformEvent(event), seq: event.seq }
+      : event;
+    let finalEvent = transformedEvent;
+
+    // Field-level read access depends on the recipient, hidden fields and
+    // selectFields/omitFields do not and are removed once for everyone
+    const fields: any[] = getEntityConfig(this.payload!, event)?.fields || [];
+    const redactPerRecipient =
+      Boolean(finalEvent.doc) && hasFieldReadAccess(fields);
+    const collectionOptions: CollectionEventOptions = event.collection
+      ? this.options.collectionOptions?.[event.collection] || {}
+      : {};
+
+    const projectedPreviousDoc = projectDocument(
+      previousDoc,
+      collectionOptions,
+    );
+
+    if (finalEvent.doc) {
+      finalEvent = {
+        ...finalEvent,
+        doc: projectDocument(finalEvent.doc, collectionOptions),
+      };
+    }
+
+    if (!redactPerRecipient) {
+      finalEvent = await this.redactEvent(
+        finalEvent,
+        projectedPreviousDoc,
+        fields,
+        collectionOptions,
+        null,
+      );
+    }
+
+    // Document subscribers receive events for their document as well
+    // Socket.IO deduplicates sockets that are in several of these rooms
+    const room = this.getEventRoom(event);
+    const rooms =
+      event.collection && event.id !== undefined
+        ? [room, this.getDocRoom(event.collection, event.id)]
+        : [room];
+
+    return {
+      event,
+      transformedEvent,
+      finalEvent,
+      previousDoc: projectedPreviousDoc,
+      // Subscription filters are matched against the document
+      // Deletes have no document, so the deleted (previous) document is used
+      matchDoc: event.doc ?? previousDoc,
+      fields,
+      collectionOptions,
+      redactPerRecipient,
+      // Deletes reach everyone who may have seen the document
+      draftsOnly:
+        Boolean(collectionOptions.drafts?.publishedOnly) &&
+        event.status === "draft" &&
+        event.type !== "delete",
+      rooms,
+      authorization: this.getAuthorizationMode(
+        (event.global || event.collection)!,
+      ),
+    };
+  }
+
+  /**
+   * Deliver a prepared event to sockets, checking their subscription filters,
+   * authorization and field access
+   * Sockets are grouped by user, so a user with several tabs is authorized
+   * and redacted for once. Returns the number of sockets emitted to.
+   * With `all`, the event is sent as `payload:event:all` and subscription
+   * filters do not apply.
+   */
+  private async deliverToSockets(
+    prepared: PreparedEvent,
+    sockets: EventRecipient[],
+    all = false,
+  ): Promise<number> {
+    const useAuthorizeAll = all && Boolean(this.options.authorizeAll);
+    if (prepared.authorization === "deny" && !useAuthorizeAll) {
+      return 0;
+    }
+
+    const groups = this.groupByUser(
+      all
+        ? sockets
+        : sockets.filter((socket) =>
+            this.matchesSubscription(socket, prepared.event, prepared.matchDoc),
+          ),
+    );
+
+    let delivered = 0;
+    const { concurrency = 50 } = this.options.fanOut || {};
+
+    await forEachConcurrently(
+      groups,
+      concurrency,
+      async ({ user, sockets: userSockets }) => {
+        const recipientEvent = await this.getRecipientEvent(
+          prepared,
+          user,
+          useAuthorizeAll,
+        );
+        if (!recipientEvent) {
+          return;
+        }
+
+        userSockets.forEach((socket) =>
+          all
+            ? socket.emit("payload:event:all", recipientEvent)
+            : this.sendEvent(socket, recipientEvent),
+        );
+        delivered += userSockets.length;
+      },
+    );
+
+    return delivered;
+  }
+
+  /**
+   * Group sockets by their user, leaving out unauthenticated sockets
+   */
+  private groupByUser(
+    sockets: EventRecipient[],
+  ): Array<{ user: any; sockets: EventRecipient[] }> {
+    const groups = new Map<string, { user: any; sockets: EventRecipient[] }>();
+
+    for (const socket of sockets) {
+      // Use socket.data.user for remote sockets (Redis adapter), fallback to socket.user for local
+      const user = socket.data.user || socket.user;
+      if (!user) {
+        continue;
+      }
+
+      const key = getUserKey(user);
+      const group = groups.get(key) || { user, sockets: [] };
+      group.sockets.push(socket);
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Send an event to a socket, adding it to the socket's batch when the
+   * socket receives events in batches
+   */
+  private sendEvent(socket: EventRecipient, event: RealtimeEventPayload): void {
+    if (!socket.data.batch) {
+      socket.emit("payload:event", event);
+      return;
+    }
+
+    const { maxDelay = 50, maxSize = 100 } = this.options.batch || {};
+    let batch = this.batches.get(socket.id);
+
+    if (!batch) {
+      const timer = setTimeout(() => this.flushBatch(socket.id), maxDelay);
+      timer.unref();
+      batch = { socket, events: [], timer };
+      this.batches.set(socket.id, batch);
+    }
+
+    batch.events.push(event);
+    if (batch.events.length >= maxSize) {
+      this.flushBatch(socket.id);
+    }
+  }
+
+  private flushBatch(socketId: string): void {
+    const batch = this.batches.get(socketId);
+    if (!batch) {
+      return;
+    }
+
+    clearTimeout(batch.timer);
+    this.batches.delete(socketId);
+    batch.socket.emit("payload:events", batch.events);
+  }
+
+  /**
+   * Authorize and redact a prepared event for a user
+   * Returns null if the user may not receive it
+   */
+  private async getRecipientEvent(
+    prepared: PreparedEvent,
+    user: any,
+    useAuthorizeAll = false,
+  ): Promise<RealtimeEventPayload | null> {
+    const { event, authorization, redactPerRecipient, finalEvent } = prepared;
+
+    const isAuthorized = useAuthorizeAll
+      ? await this.authorizeRecipientCached(
+          user,
+          prepared.transformedEvent,
+          prepared.matchDoc,
+          true,
+        )
+      : authorization !== "check" ||
+        (await this.authorizeRecipientCached(
+          user,
+          prepared.transformedEvent,
+          prepared.matchDoc,
+        ));
+
+    if (!isAuthorized) {
+      return null;
+    }
+
+    // Users who may not read drafts only see published versions, so an
+    // unpublished document disappears for them
+    if (
+      prepared.draftsOnly &&
+      !(await this.canReadDrafts(user, event, prepared.matchDoc))
+    ) {
+      return event.type === "unpublish"
+        ? { ...finalEvent, doc: undefined, changes: undefined }
+        : null;
+    }
+
+    if (!redactPerRecipient) {
+      return finalEvent;
+    }
+
+    try {
+      return await this.redactEvent(
+        finalEvent,
+        prepared.previousDoc,
+        prepared.fields,
+        prepared.collectionOptions,
+        await this.resolveUser(user),
+      );
+    } catch (error) {
+      this.payload!.logger.error(
+        `Error redacting ${event.type} event for ${
+          event.global || event.collection
+        }:`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Replay the events a socket missed since the sequence numbers it last saw
+   * Rooms the buffer no longer reaches back far enough for are reported as
+   * requiring a resync.
+   */
+  private async replayMissedEvents(
+    socket: AuthenticatedSocket,
+    lastSeen: ReplayRequest,
+  ): Promise<ReplayResult> {
+    const result: ReplayResult = { replayed: {}, resync: [] };
+
+    for (const [room, lastSeq] of Object.entries(lastSeen || {})) {
+      if (!/^(collection|global):/.test(room)) {
+        continue;
+      }
+
+      const entries =
+        typeof lastSeq === "number"
+          ? await this.replayBuffer!.since(room, lastSeq)
+          : null;
+
+      if (!entries) {
+        result.resync.push(room);
+        socket.emit("payload:resync-required", { room });
+        continue;
+      }
+
+      let replayed = 0;
+      for (const entry of entries) {
+        const prepared = await this.prepareEvent(
+          { ...entry.event, seq: entry.seq },
+          entry.previousDoc,
+        );
+
+        // Only replay events for rooms the socket has (re)subscribed to
+        if (prepared.rooms.some((eventRoom) => socket.rooms.has(eventRoom))) {
+          replayed += await this.deliverToSockets(prepared, [socket]);
+        }
+
+        if (socket.rooms.has(ALL_ROOM)) {
+          replayed += await this.deliverToSockets(prepared, [socket], true);
+        }
+      }
+
+      result.replayed[room] = replayed;
+    }
+
+    return result;
+  }
+
+  /**
+   * Publish a custom message to rooms, users, or the subscribers of a
+   * collection or global, on every instance
+   * Collection and global targets go through the same subscription filters
+   * and authorization as their events, and `authorize` adds a per-user
+   * check. Their data passes shouldEmit and transformEvent and is projected
+   * and redacted like the document of an event. Authorized messages are
+   * checked on this instance, once per user.
+   */
+  async publish<TData = any>(options: PublishOptions<TData>): Promise<void> {
+    if (!this.io) {
+      this.payload!.logger.warn(
+        "Socket.IO server not initialized, cannot publish message",
+      );
+      return;
+    }
+
+    const { event, data, collection, global, authorize } = options;
+    const rooms = this.getPublishRooms(options);
+
+    if (!event || rooms.length === 0) {
+      throw new Error(
+        "publish requires an event and a room, user, collection or global",
+      );
+    }
+
+    const slug = global || collection;
+    const authorization = slug ? this.getAuthorizationMode(slug) : "none";
+    if (authorization === "deny") {
+      return;
+    }
+
+    // Authorization and filters see the message as an update of the document
+    const messageEvent: RealtimeEventPayload | null = slug
+      ? {
+          type: "update",
+          ...(global ? { global } : { collection }),
+          id: options.id ?? (data as any)?.id,
+          doc: data,
+          timestamp: new Date().toISOString(),
+        }
+      : null;
+    const hasFilters = Boolean(collection);
+
+    // Messages about a document pass shouldEmit and transformEvent like its
+    // events; the transformed document is what recipients receive
+    const { shouldEmit, transformEvent } = this.options;
+    if (messageEvent && shouldEmit && !shouldEmit(messageEvent)) {
+      return;
+    }
+    const transformedEvent =
+      messageEvent && transformEvent
+        ? transformEvent(messageEvent)
+        : messageEvent;
+
+    // Data about a document is filtered like the document of an event
+    const fields: any[] = messageEvent
+      ? getEntityConfig(this.payload!, messageEvent)?.fields || []
+      : [];
+    const redactPerRecipient =
+      Boolean(messageEvent) && hasFieldReadAccess(fields);
+    const redact = (doc: any, user: any) =>
+      redactDocument({
+        payload: this.payload!,
+        fields,
+        doc,
+        user,
+        id: messageEvent?.id,
+      });
+
+    let sharedData: any = data;
+    if (transformedEvent) {
+      sharedData = projectDocument(
+        transformedEvent.doc,
+        (collection && this.options.collectionOptions?.[collection]) || {},
+      );
+      if (!redactPerRecipient) {
+        sharedData = await redact(sharedData, null);
+      }
+    }
+
+    if (
+      authorization === "none" &&
+      !authorize &&
+      !hasFilters &&
+      !redactPerRecipient
+    ) {
+      this.io.to(rooms).emit(event, sharedData);
+      return;
+    }
+
+    const sockets = (await this.io.in(rooms).fetchSockets()).filter(
+      (socket) =>
+        !messageEvent || this.matchesSubscription(socket, messageEvent, data),
+    );
+    const { concurrency = 50 } = this.options.fanOut || {};
+
+    await forEachConcurrently(
+      this.groupByUser(sockets),
+      concurrency,
+      async ({ user, sockets: userSockets }) => {
+        if (
+          authorization === "check" &&
+          !(await this.authorizeRecipient(user, transformedEvent!, data))
+        ) {
+          return;
+        }
+
+        if (authorize) {
+          try {
+            if (!(await authorize(user, data as TData))) {
+              return;
+            }
+          } catch (error) {
+            this.payload!.logger.error(
+              `Error authorizing published ${event} message:`,
+              error,
+            );
+            return;
+          }
+        }
+
+        let userData = sharedData;
+        if (redactPerRecipient) {
+          try {
+            userData = await redact(sharedData, await this.resolveUser(user));
+          } catch (error) {
+            this.payload!.logger.error(
+              `Error redacting published ${event} message:`,
+              error,
+            );
+            return;
+          }
+        }
+
+        userSockets.forEach((socket) => socket.emit(event, userData));
+      },
+    );
+  }
+
+  /**
+   * Get the rooms targeted by a published message
+   */
+  private getPublishRooms({
+    room,
+    user,
+    collection,
+    id,
+    global,
+  }: PublishOptions): string[] {
+    const rooms = room ? [room].flat() : [];
+
+    if (user) {
+      rooms.push(...[user].flat().map((target) => this.getUserRoom(target)));
+    }
+
+    if (collection) {
+      rooms.push(`collection:${collection}`);
+      if (id !== undefined) {
+        rooms.push(this.getDocRoom(collection, id));
+      }
+    }
+
+    if (global) {
+      rooms.push(`global:${global}`);
+    }
+
+    return rooms;
+  }
+
+  /**
+   * Disconnect the sockets of a user on every instance
+   * Sockets receive `auth:revoked` first. Pass a session ID to only
+   * disconnect the sockets authenticated with that session.
+   */
+  async revokeUserSockets(
+    user: { collection?: string; id: string | number },
+    revocation: AuthRevocation,
+    sessionId?: string,
+  ): Promise<void> {
+    if (!this.io) {
+      return;
+    }
+
+    const sockets = await this.io.in(this.getUserRoom(user)).fetchSockets();
+
+    sockets
+      .filter((socket) => !sessionId || socket.data.sessionId === sessionId)
+      .forEach((socket) => {
+        socket.emit("auth:revoked", revocation);
+        socket.disconnect(true);
+      });
+  }
+
+  /**
+   * Re-evaluate the sockets of a user after the user document changed
+   * Users that can no longer connect (e.g. locked) are disconnected; the
+   * cached `socket.data.user` of everyone else is refreshed on every instance.
+   */
+  async refreshUserSockets(user: {
+    collection?: string;
+    id: string | number;
+  }): Promise<void> {
+    if (!this.io) {
+      return;
+    }
+
+    const collection = user.collection || "users";
+    const userDoc = await this.payload!.findByID({
+      collection,
+      id: user.id,
+      depth: 0,
+      showHiddenFields: true,
+    });
+
+    const rejection = getUserRejection(this.payload!, {
+      ...userDoc,
+      collection,
+    });
+    if (rejection) {
+      await this.revokeUserSockets(user, {
+        reason: "rejected",
+        message: rejection,
+      });
+      return;
+    }
+
+    const snapshot = this.toSocketUser({ ...userDoc, collection });
+    if (this.pubClient) {
+      this.io.serverSideEmit(USER_UPDATED_EVENT, snapshot);
+    }
+    this.updateLocalUserSockets(snapshot);
+  }
+
+  /**
+   * Replace the cached user of this instance's sockets of a user
+   */
+  private updateLocalUserSockets(
+    user: NonNullable<AuthenticatedSocket["user"]>,
+  ): void {
+    const socketIds = this.io!.sockets.adapter.rooms.get(
+      this.getUserRoom(user),
+    );
+
+    // Access decisions may depend on the changed user
+    const userKey = getUserKey(user);
+    this.userCache.delete(userKey);
+    this.decisionCache.deleteByPrefix(`${userKey}|`);
+
+    socketIds?.forEach((socketId) => {
+      const socket: AuthenticatedSocket | undefined =
+        this.io!.sockets.sockets.get(socketId);
+      if (socket?.data.user) {
+        // Update in place; socket.user refers to the same object
+        Object.assign(socket.data.user, user);
+      }
+    });
+  }
+
+  /**
+   * Get the users present in a room
+   */
+  async getPresence(room: string): Promise<PresenceUser[]> {
+    if (!this.presenceStore) {
+      return [];
+    }
+
+    return toPresenceUsers(await this.presenceStore.list(room));
+  }
+
+  /**
+   * Add a socket to a room's presence
+   * Returns the room's users, or null if the socket is not in the room
+   */
+  private async joinPresence(
+    socket: AuthenticatedSocket,
+    { room, state }: PresenceRequest,
+  ): Promise<PresenceUser[] | null> {
+    const user = socket.data.user || socket.user;
+    if (!room || room === socket.id || !socket.rooms.has(room) || !user) {
+      return null;
+    }
+
+    const store = this.presenceStore!;
+    const userKey = getUserKey(user);
+    const isNewUser = !(await store.list(room)).some(
+      (entry) =>
+        getUserKey(entry.user) === userKey && entry.socketId !== socket.id,
+    );
+
+    await store.set(room, {
+      socketId: socket.id,
+      nodeId: this.nodeId,
+      user: { id: user.id, email: user.email, collection: user.collection },
+      state,
+      updatedAt: Date.now(),
+    });
+
+    const rooms = this.presenceRooms.get(socket.id) || new Set();
+    rooms.add(room);
+    this.presenceRooms.set(socket.id, rooms);
+
+    const users = toPresenceUsers(await store.list(room));
+    const presentUser = users.find(
+      (candidate) => getUserKey(candidate) === userKey,
+    );
+
+    // Other tabs of a user that is already present only update the user
+    socket
+      .to(room)
+      .emit(isNewUser ? "presence:user-joined" : "presence:user-updated", {
+        room,
+        user: presentUser,
+      });
+
+    return users;
+  }
+
+  /**
+   * Update a socket's presence state in a room
+   * Returns false if the socket has not joined the room's presence
+   */
+  private async updatePresence(
+    socket: AuthenticatedSocket,
+    { room, state }: PresenceRequest,
+  ): Promise<boolean> {
+    const user = socket.data.user || socket.user;
+    if (!this.presenceRooms.get(socket.id)?.has(room) || !user) {
+      return false;
+    }
+
+    const store = this.presenceStore!;
+    await store.set(room, {
+      socketId: socket.id,
+      nodeId: this.nodeId,
+      user: { id: user.id, email: user.email, collection: user.collection },
+      state,
+      updatedAt: Date.now(),
+    });
+
+    const userKey = getUserKey(user);
+    const presentUser = toPresenceUsers(await store.list(room)).find(
+      (candidate) => getUserKey(candidate) === userKey,
+    );
+
+    this.io!.to(room).emit("presence:user-updated", {
+      room,
+      user: presentUser,
+    });
+
+    return true;
+  }
+
+  /**
+   * Remove a local socket from a room's presence
+   */
+  private async leavePresence(room: string, socketId: string): Promise<void> {
+    const rooms = this.presenceRooms.get(socketId);
+    if (!rooms?.has(room)) {
+      return;
+    }
+
+    rooms.delete(room);
+    if (rooms.size === 0) {
+      this.presenceRooms.delete(socketId);
+    }
+
+    const store = this.presenceStore!;
+    const entry = (await store.list(room)).find(
+      (candidate) => candidate.socketId === socketId,
+    );
+    await store.remove(room, socketId);
+
+    if (entry) {
+      await this.notifyPresenceLeft(room, [entry]);
+    }
+  }
+
+  /**
+   * Tell a room about removed presence entries
+   * A user only leaves once their last connection is gone.
+   */
+  private async notifyPresenceLeft(
+    room: string,
+    removed: PresenceEntry[],
+  ): Promise<void> {
+    const users = toPresenceUsers(await this.presenceStore!.list(room));
+
+    for (const removedUser of toPresenceUsers(removed)) {
+      const userKey = getUserKey(removedUser);
+      const remaining = users.find(
+        (candidate) => getUserKey(candidate) === userKey,
+      );
+
+      if (remaining) {
+        this.io!.to(room).emit("presence:user-updated", {
+          room,
+          user: remaining,
+        });
+      } else {
+        this.io!.to(room).emit("presence:user-left", {
+          room,
+          userId: removedUser.id,
+          user: removedUser,
+        });
+      }
+    }
+  }
+
+  /**
+   * Get Socket.IO server instance
+   */
+  getIO(): SocketIOServer | null {
+    return this.io;
+  }
+
+  /**
+   * Cleanup and close connections
+   */
+  async close(): Promise<void> {
+    if (this.presenceTimer) {
+      clearInterval(this.presenceTimer);
+    }
+
+    this.tokenExpiryTimers.forEach((timer) => clearTimeout(timer));
+    this.tokenExpiryTimers.clear();
+    this.pendingTransactions.forEach(({ timer }) => clearTimeout(timer));
+    this.pendingTransactions.clear();
+
+    // Let coalesced and queued events go out before closing
+    this.coalescer.flush();
+    await this.queue;
+    Array.from(this.batches.keys()).forEach((socketId) =>
+      this.flushBatch(socketId),
+    );
+    this.userCache.clear();
+    this.decisionCache.clear();
+
     if (this.io) {
       this.io.close();
     }
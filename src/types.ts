@@ -1,9 +1,44 @@
 import { Socket } from "socket.io";
+import type { Where } from "payload";
 
 /**
  * Event types that can be emitted
+ * `publish` and `unpublish` are updates that change the `_status` of a
+ * document with drafts enabled.
  */
-export type EventType = "create" | "update" | "delete";
+export type EventType =
+  | "create"
+  | "update"
+  | "delete"
+  | "publish"
+  | "unpublish";
+
+/**
+ * Status of a document in a collection (or global) with `versions.drafts`
+ */
+export type DocumentStatus = "draft" | "published";
+
+/**
+ * A changed path with its previous and new value
+ */
+export interface FieldChange {
+  /** Dot-notation path of the changed field */
+  path: string;
+  /** Value before the change (undefined if the field was added) */
+  previousValue?: any;
+  /** Value after the change (undefined if the field was removed) */
+  value?: any;
+}
+
+/**
+ * RFC 6902 JSON Patch operation
+ */
+export interface JsonPatchOperation {
+  op: "add" | "remove" | "replace";
+  /** JSON Pointer to the changed field */
+  path: string;
+  value?: any;
+}
 
 /**
  * Payload for real-time events
@@ -11,12 +46,23 @@ export type EventType = "create" | "update" | "delete";
 export interface RealtimeEventPayload {
   /** Type of event */
   type: EventType;
-  /** Collection slug */
-  collection: string;
+  /** Collection slug (for collection events) */
+  collection?: string;
+  /** Global slug (for global events) */
+  global?: string;
   /** Document ID */
   id: string | number;
   /** Document data (for create/update events) */
   doc?: any;
+  /**
+   * Changes compared to the previous document (for update events)
+   * Only set when `changes` is configured for the collection
+   */
+  changes?: FieldChange[] | JsonPatchOperation[];
+  /** Status of the document (for collections and globals with drafts) */
+  status?: DocumentStatus;
+  /** Whether the event comes from an autosave */
+  autosave?: boolean;
   /** User who triggered the event */
   user?: {
     id: string | number;
@@ -25,8 +71,186 @@ export interface RealtimeEventPayload {
   };
   /** Timestamp of the event */
   timestamp: string;
+  /**
+   * Sequence number of the event within its room (`collection:<slug>` or
+   * `global:<slug>`), increasing by one for every emitted event
+   */
+  seq?: number;
+}
+
+/**
+ * Replay request sent with `replay`
+ * Map of room (`collection:<slug>` or `global:<slug>`) to the sequence
+ * number of the last event the client received from it
+ */
+export type ReplayRequest = Record<string, number>;
+
+/**
+ * Result of a replay request
+ */
+export interface ReplayResult {
+  /** Number of events replayed per room */
+  replayed: Record<string, number>;
+  /** Rooms the buffer no longer covers; the client must refetch these */
+  resync: string[];
 }
 
+/**
+ * Presence request sent with `presence:join`, `presence:update` and
+ * `presence:leave`
+ */
+export interface PresenceRequest {
+  /** Room the socket has already joined, e.g. `project:123` */
+  room: string;
+  /** Custom presence state, e.g. `{ editing: "title" }` */
+  state?: Record<string, any>;
+}
+
+/**
+ * A user present in a room
+ * Users with several connections (e.g. tabs) are listed once.
+ */
+export interface PresenceUser {
+  id: string | number;
+  email?: string;
+  collection?: string;
+  /** State of the user's most recently updated connection */
+  state?: Record<string, any>;
+  /** Number of connections of this user in the room */
+  connections: number;
+}
+
+/**
+ * Fresh token sent with `auth:refresh`
+ */
+export interface TokenRefreshRequest {
+  /** Payload JWT of the same user */
+  token: string;
+}
+
+/**
+ * Expiry of a socket's token, sent with `auth:expiring`, `auth:expired` and
+ * the `auth:refresh` acknowledgement
+ */
+export interface TokenExpiry {
+  /** ISO timestamp at which the token expires */
+  expiresAt: string;
+}
+
+/**
+ * Reason a socket is disconnected, sent with `auth:revoked`
+ * - logout: the user (or the socket's session) logged out
+ * - deleted: the user was deleted
+ * - rejected: the user can no longer connect, e.g. because it was locked
+ */
+export interface AuthRevocation {
+  reason: "logout" | "deleted" | "rejected";
+  message?: string;
+}
+
+/**
+ * Message published with `SocketIOManager.publish` or `publish(payload, ...)`
+ * Set at least one target: `room`, `user`, `collection` or `global`. Sockets
+ * in several targeted rooms receive the message once.
+ */
+export interface PublishOptions<TData = any> {
+  /** Socket.IO event name sent to clients, e.g. `project:archived` */
+  event: string;
+  /** Data sent with the event */
+  data?: TData;
+  /** Any room, e.g. one joined in `onSocketConnection` */
+  room?: string | string[];
+  /** Every socket of these users, on every instance */
+  user?:
+    | { collection?: string; id: string | number }
+    | Array<{ collection?: string; id: string | number }>;
+  /**
+   * Subscribers of a collection; with `id`, also the subscribers of that
+   * document. Recipients are authorized like the collection's events, with
+   * `data` as the document, and `data` goes through `shouldEmit`,
+   * `transformEvent` and redaction like an event's document.
+   */
+  collection?: string;
+  /** Document of `collection` the message is about */
+  id?: string | number;
+  /**
+   * Subscribers of a global, authorized, transformed and redacted like the
+   * global's events with `data` as the document
+   */
+  global?: string;
+  /** Additional per-user check, called once per user */
+  authorize?: (user: any, data: TData) => boolean | Promise<boolean>;
+}
+
+/**
+ * Live query registered with `query:subscribe`
+ */
+export interface LiveQueryRequest {
+  /** Client-chosen ID, unique per socket, sent back with every message */
+  id: string;
+  collection: string;
+  where?: Where;
+  /** Payload sort, e.g. `-createdAt` or `["status", "-updatedAt"]` */
+  sort?: string | string[];
+  /** Maximum number of documents kept in sync (default 10) */
+  limit?: number;
+}
+
+/**
+ * Messages that keep a live query's result set in sync
+ * Applied in the order received, they turn the previous result set into
+ * the current one.
+ */
+export type LiveQueryMessage =
+  | {
+      type: "added";
+      queryId: string;
+      doc: any;
+      /** Position of the document in the result set */
+      index: number;
+    }
+  | { type: "removed"; queryId: string; id: string | number }
+  | { type: "changed"; queryId: string; doc: any; index: number }
+  | {
+      type: "moved";
+      queryId: string;
+      id: string | number;
+      fromIndex: number;
+      toIndex: number;
+    };
+
+/**
+ * Document operations that can be run over the socket
+ */
+export type MutationOperation = "create" | "update" | "delete";
+
+/**
+ * Request sent with `doc:create`, `doc:update` or `doc:delete`
+ * `id` is required for updates and deletes, `data` for creates and updates.
+ */
+export interface DocMutationRequest<TData = Record<string, any>> {
+  collection: string;
+  id?: string | number;
+  data?: TData;
+  /** Depth of the returned document (default 0) */
+  depth?: number;
+}
+
+/**
+ * Additional context passed to `SocketIOManager.emitEvent`
+ */
+export interface EmitEventOptions {
+  /** Document before the change (the deleted document for delete events) */
+  previousDoc?: any;
+}
+
+/**
+ * Real-time event with a typed document, as received by clients
+ */
+export type RealtimeEvent<TDoc = any> = Omit<RealtimeEventPayload, "doc"> & {
+  doc?: TDoc;
+};
+
 /**
  * Socket.IO server instance with authentication
  */
@@ -39,6 +263,166 @@ export interface AuthenticatedSocket extends Socket {
   };
 }
 
+/**
+ * Error returned to clients through acknowledgement callbacks
+ */
+export interface SocketError {
+  /** Machine-readable error code */
+  code: string;
+  /** Human-readable error message */
+  message: string;
+  /** Field errors of a `VALIDATION_ERROR` */
+  errors?: Array<{ path: string; message: string }>;
+}
+
+/**
+ * Error sent with `payload:error` when an inbound event is dropped
+ */
+export interface InboundEventError extends SocketError {
+  /** Name of the dropped event */
+  event: string;
+}
+
+/**
+ * Token bucket limiting how often an event may be sent
+ */
+export interface RateLimit {
+  /** Events that may be sent at once (bucket size) */
+  burst: number;
+  /** Events per second allowed on average (refill rate) */
+  perSecond: number;
+}
+
+/**
+ * Response passed to client acknowledgement callbacks
+ */
+export type SocketAck<T = undefined> =
+  { ok: true; data?: T } | { ok: false; error: SocketError };
+
+/**
+ * Result of validating a value with a Standard Schema
+ */
+export type StandardSchemaResult<TOutput> =
+  | { value: TOutput; issues?: undefined }
+  | {
+      issues: ReadonlyArray<{
+        message: string;
+        path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+      }>;
+    };
+
+/**
+ * Schema implementing the Standard Schema spec (https://standardschema.dev),
+ * such as zod (3.24+), valibot or arktype schemas
+ * Only the parts used by socket handlers are declared.
+ */
+export interface StandardSchema<TInput = unknown, TOutput = TInput> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) =>
+      | StandardSchemaResult<TOutput>
+      | Promise<StandardSchemaResult<TOutput>>;
+    readonly types?: { readonly input: TInput; readonly output: TOutput };
+  };
+}
+
+/**
+ * What a socket handler receives besides its input
+ */
+export interface SocketHandlerContext {
+  socket: AuthenticatedSocket;
+  /** Full user document of the socket's user */
+  user: any;
+  /** Socket.IO server */
+  io: any;
+  /** Payload instance */
+  payload: any;
+}
+
+/**
+ * Socket event handler declared in the `handlers` option
+ * The input is validated with `schema`, then `access` is checked, then the
+ * handler's result is sent through the acknowledgement callback.
+ * `TSchemaInput` is what clients send, `TInput` what the schema turns it into.
+ */
+export interface SocketHandler<
+  TInput = any,
+  TResult = any,
+  TSchemaInput = TInput
+> {
+  /** Validates (and may transform) the input */
+  schema?: StandardSchema<TSchemaInput, TInput>;
+  /** Check whether the socket's user may call the handler */
+  access?: (
+    input: TInput,
+    context: SocketHandlerContext
+  ) => boolean | Promise<boolean>;
+  handler: (
+    input: TInput,
+    context: SocketHandlerContext
+  ) => TResult | Promise<TResult>;
+}
+
+/**
+ * Socket event handlers by event name
+ */
+export type SocketHandlers = Record<string, SocketHandler>;
+
+/**
+ * Input a client sends to a socket handler
+ */
+export type SocketHandlerInput<THandler> =
+  THandler extends SocketHandler<any, any, infer TSchemaInput>
+    ? TSchemaInput
+    : unknown;
+
+/**
+ * Result a socket handler acknowledges with
+ */
+export type SocketHandlerResult<THandler> =
+  THandler extends SocketHandler<any, infer TResult, any> ? TResult : unknown;
+
+/**
+ * Collection subscription request sent with `subscribe`
+ * A plain collection slug subscribes to every event of the collection
+ */
+export type CollectionSubscription =
+  | string
+  | {
+      /** Collection slug */
+      collection: string;
+      /** Only deliver events whose document matches this query */
+      where?: Where;
+    };
+
+/**
+ * Result acknowledged for `subscribe`/`unsubscribe` and their global variants
+ */
+export interface SubscriptionResult {
+  /** Collection (or global) slugs that were subscribed or unsubscribed */
+  accepted: string[];
+  /** Entries that were refused, with the reason */
+  rejected: Array<{ slug: string; error: SocketError }>;
+  /**
+   * Current sequence number of each room that was subscribed to, so clients
+   * can replay from it before they have received an event of the room
+   */
+  seq?: { [room: string]: number };
+}
+
+/**
+ * Document subscription request sent with `subscribe-doc`/`unsubscribe-doc`
+ */
+export interface DocSubscription {
+  /** Collection slug */
+  collection: string;
+  /** Document ID */
+  id: string | number;
+}
+
 /**
  * Authorization handler for a specific collection
  */
@@ -47,6 +431,90 @@ export type CollectionAuthorizationHandler = (
   event: RealtimeEventPayload
 ) => Promise<boolean>;
 
+/**
+ * Real-time options for a single collection
+ */
+export interface CollectionEventOptions {
+  /**
+   * Operations that are broadcast for this collection
+   * `publish` and `unpublish` are broadcast along with `update` unless they
+   * are listed themselves.
+   * @default ["create", "update", "delete", "publish", "unpublish"]
+   */
+  operations?: EventType[];
+
+  /**
+   * Only include these fields (dot notation) in broadcast documents
+   * The `id` field is always included
+   */
+  selectFields?: string[];
+
+  /**
+   * Leave these fields (dot notation) out of broadcast documents
+   */
+  omitFields?: string[];
+
+  /**
+   * Add a `changes` field to update events
+   * - "paths": changed dot-notation paths with their previous and new values
+   * - "json-patch": RFC 6902 JSON Patch operations
+   */
+  changes?: "paths" | "json-patch";
+
+  /**
+   * Include the full document in update events that carry `changes`
+   * Set to false to only send the changes
+   * @default true
+   */
+  includeDoc?: boolean;
+
+  /**
+   * Merge bursts of events for the same document (e.g. autosave or bulk
+   * updates) into the latest one
+   * Pass the window in ms, or an object with a `maxDelay` after which the
+   * merged event is sent even if events keep coming (default 4 × window).
+   */
+  coalesce?: number | CoalesceWindow;
+
+  /**
+   * Handling of draft saves and autosaves (collections with `versions.drafts`)
+   */
+  drafts?: DraftEventOptions;
+}
+
+/**
+ * Draft options of a collection
+ */
+export interface DraftEventOptions {
+  /**
+   * How autosave events are broadcast
+   * - a window in ms (or a CoalesceWindow): merge each document's autosaves
+   * - "emit": broadcast every autosave like any other update
+   * - "skip": do not broadcast autosaves at all
+   * @default 2000
+   */
+  autosave?: number | CoalesceWindow | "emit" | "skip";
+
+  /**
+   * Only send published versions to users who may not read drafts (the
+   * collection's `access.readVersions`)
+   * They receive no events for draft saves, and unpublish events without the
+   * document.
+   * @default false
+   */
+  publishedOnly?: boolean;
+}
+
+/**
+ * Coalescing window of a collection
+ */
+export interface CoalesceWindow {
+  /** ms without further events after which the merged event is sent */
+  window: number;
+  /** ms after the first event of a burst after which it is sent anyway */
+  maxDelay?: number;
+}
+
 /**
  * Plugin configuration options
  */
@@ -64,6 +532,29 @@ export interface RealtimeEventsPluginOptions {
    */
   includeCollections?: string[];
 
+  /**
+   * Globals to include for real-time events
+   * Events for globals are emitted to `global:<slug>` rooms and carry
+   * `global` instead of `collection`
+   */
+  includeGlobals?: string[];
+
+  /**
+   * Per-collection real-time options
+   * Map of collection slug to options for that collection
+   *
+   * @example
+   * ```ts
+   * collectionOptions: {
+   *   // Only broadcast new and removed comments
+   *   comments: { operations: ['create', 'delete'] },
+   * }
+   * ```
+   */
+  collectionOptions?: {
+    [collectionSlug: string]: CollectionEventOptions;
+  };
+
   /**
    * Redis configuration for multi-instance support
    * Uses REDIS_URL environment variable
@@ -73,6 +564,151 @@ export interface RealtimeEventsPluginOptions {
     url?: string;
   };
 
+  /**
+   * Keep recent events so reconnecting clients can replay what they missed
+   * The buffer lives in Redis when `redis.url` is set, in memory otherwise
+   * - bufferSize: events kept per room (default 100)
+   * - ttl: seconds the buffer of an idle room is kept in Redis (default 3600)
+   */
+  replay?:
+    | boolean
+    | {
+        bufferSize?: number;
+        ttl?: number;
+      };
+
+  /**
+   * Track which users are present in rooms
+   * Presence is kept per user (not per socket) in Redis when `redis.url` is
+   * set, in memory otherwise.
+   * - heartbeatInterval: ms between instance heartbeats (default 10000)
+   * - staleAfter: ms after which entries of an instance without heartbeat
+   *   are removed, e.g. after a crash (default 30000)
+   */
+  presence?:
+    | boolean
+    | {
+        heartbeatInterval?: number;
+        staleAfter?: number;
+      };
+
+  /**
+   * What happens when the JWT a socket authenticated with expires
+   * Sockets receive `auth:expiring` before and `auth:expired` at expiry, and
+   * can send a fresh token with `auth:refresh` to stay connected.
+   * - action: "disconnect" the socket, or only "warn" it (default "disconnect")
+   * - warnBefore: ms before expiry to send `auth:expiring` (default 60000)
+   */
+  tokenExpiry?: {
+    action?: "disconnect" | "warn";
+    warnBefore?: number;
+  };
+
+  /**
+   * Allow sockets to receive events in batches through `payload:events`
+   * Sockets opt in by connecting with `auth: { batch: true }`. Events are
+   * batched in delivery order; a batch is sent at most `maxDelay` ms after
+   * its first event, or as soon as it holds `maxSize` events.
+   * - maxDelay: ms (default 50)
+   * - maxSize: events per batch (default 100)
+   */
+  batch?: {
+    maxDelay?: number;
+    maxSize?: number;
+  };
+
+  /**
+   * Collections and operations clients may run over the socket with
+   * `doc:create`, `doc:update` and `doc:delete`
+   * Operations run through the Local API as the socket's user with
+   * `overrideAccess: false`, so the collection's access control applies.
+   *
+   * @example
+   * ```ts
+   * mutations: {
+   *   tasks: ['create', 'update'],
+   *   comments: ['create', 'update', 'delete'],
+   * }
+   * ```
+   */
+  mutations?: {
+    [collectionSlug: string]: MutationOperation[];
+  };
+
+  /**
+   * Check whether a user may subscribe to a collection
+   * Runs for `subscribe`, `join-collection`, `subscribe-doc` and
+   * `query:subscribe` requests, after the collection has been checked
+   * against `includeCollections`. Receives the full user document.
+   *
+   * @example
+   * ```ts
+   * canSubscribe: async (user, collection) =>
+   *   collection !== 'audit-logs' || user.role === 'admin'
+   * ```
+   */
+  canSubscribe?: (
+    user: any,
+    collection: string
+  ) => boolean | Promise<boolean>;
+
+  /**
+   * Maximum number of collection, global and document subscriptions a
+   * single socket may hold, live queries and the `all` feed included
+   * Further subscriptions are rejected with `SUBSCRIPTION_LIMIT`.
+   * @default unlimited
+   */
+  maxSubscriptionsPerSocket?: number;
+
+  /**
+   * Limit inbound socket events and connections
+   * Events are limited per user and event name with a token bucket, shared
+   * through Redis when `redis.url` is set. Dropped events are answered with
+   * `payload:error` (and a failed ack when the event has one).
+   * - default: limit of events without their own limit (default 10 per
+   *   second, bursts of 20); `false` disables it
+   * - subscriptions: limit of subscription events (`subscribe`,
+   *   `subscribe-doc`, `query:subscribe`, `replay`, ...) without their own
+   *   limit, sized for re-sending every subscription after a reconnect
+   *   (default 20 per second, bursts of 200); `false` disables it
+   * - events: limits per event name; `false` disables the limit of an event
+   * - maxPayloadSize: bytes an event's arguments may take (default 100000)
+   * - maxConnectionsPerUser / maxConnectionsPerIp: concurrent sockets
+   *   across instances (default unlimited)
+   * - action: "error" only drops the event, "disconnect" also disconnects
+   *   the socket (default "error")
+   *
+   * @example
+   * ```ts
+   * rateLimit: {
+   *   events: { 'send-message': { burst: 5, perSecond: 1 } },
+   *   maxConnectionsPerUser: 10,
+   * }
+   * ```
+   */
+  rateLimit?: {
+    default?: RateLimit | false;
+    subscriptions?: RateLimit | false;
+    events?: { [event: string]: RateLimit | false };
+    maxPayloadSize?: number;
+    maxConnectionsPerUser?: number;
+    maxConnectionsPerIp?: number;
+    action?: "error" | "disconnect";
+  };
+
+  /**
+   * Tuning of event delivery to authorized recipients
+   * Each instance authorizes its own sockets, once per user.
+   * - cacheTTL: ms user documents and authorization decisions are cached;
+   *   decisions are keyed by the document's `updatedAt` (default 5000, 0
+   *   disables caching)
+   * - concurrency: users authorized in parallel per event (default 50)
+   */
+  fanOut?: {
+    cacheTTL?: number;
+    concurrency?: number;
+  };
+
   /**
    * Socket.IO server options
    */
@@ -96,13 +732,16 @@ export interface RealtimeEventsPluginOptions {
 
   /**
    * Custom authentication function
-   * If not provided, uses Payload's built-in JWT authentication
+   * Return the user document to accept the socket, or null to reject it.
+   * If not provided, the socket is authenticated with Payload's auth
+   * strategies (JWT, API key, `payload-token` cookie and custom strategies).
+   * Locked and unverified users are rejected either way.
    */
   authenticate?: (socket: Socket, payload: any) => Promise<any>;
 
   /**
-   * Authorization handlers per collection
-   * Map of collection slug to authorization handler function
+   * Authorization handlers per collection or global
+   * Map of collection (or global) slug to authorization handler function
    *
    * @example
    * ```ts
@@ -119,9 +758,32 @@ export interface RealtimeEventsPluginOptions {
    * ```
    */
   authorize?: {
-    [collectionSlug: string]: CollectionAuthorizationHandler;
+    [slug: string]: CollectionAuthorizationHandler;
   };
 
+  /**
+   * Authorization handler for the `payload:event:all` feed
+   * Sockets receive the feed after sending `subscribe-all`. Without this
+   * handler, every event of the feed is authorized like it is for its own
+   * collection (or global) room.
+   *
+   * @example
+   * ```ts
+   * authorizeAll: async (user, event) => user.role === 'admin'
+   * ```
+   */
+  authorizeAll?: CollectionAuthorizationHandler;
+
+  /**
+   * Authorize recipients with the collection's (or global's) own Payload
+   * `access.read` rules
+   * When enabled, collections without an `authorize` handler check each
+   * recipient against `access.read`. Access functions returning a `Where`
+   * query are matched against the event's document.
+   * @default false
+   */
+  useAccessControl?: boolean;
+
   /**
    * Event filter function to determine if an event should be emitted
    */
@@ -132,6 +794,32 @@ export interface RealtimeEventsPluginOptions {
    */
   transformEvent?: (event: RealtimeEventPayload) => RealtimeEventPayload;
 
+  /**
+   * Socket event handlers with validated input and access control
+   * Each handler answers through the acknowledgement callback with
+   * `{ ok: true, data }` or `{ ok: false, error }`. Declare them with
+   * `defineSocketHandlers` so the client SDK can be typed from them.
+   *
+   * @example
+   * ```ts
+   * handlers: defineSocketHandlers({
+   *   'archive-project': {
+   *     schema: z.object({ projectId: z.string() }),
+   *     access: (input, { user }) => user.role === 'admin',
+   *     handler: async ({ projectId }, { payload, user }) =>
+   *       payload.update({
+   *         collection: 'projects',
+   *         id: projectId,
+   *         data: { archived: true },
+   *         user,
+   *         overrideAccess: false,
+   *       }),
+   *   },
+   * })
+   * ```
+   */
+  handlers?: SocketHandlers;
+
   /**
    * Custom socket event handlers
    * Register your own event handlers that will be attached to each authenticated socket